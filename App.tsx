@@ -1,8 +1,40 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { ShoppingItem, LocationState, AppSettings } from './types';
-import { refineItem, findTopPriceOptions, getCoordsFromLocation, GeminiError } from './services/geminiService';
+import { ShoppingItem, LocationState, AppSettings, RankedShop, ShoppingList, QuantityUnit, TripLineStatus, GroceryCategory, DietaryProfile, StorePreferences } from './types';
+import { GeminiError } from './services/geminiService';
+import { getPriceProvider, PRICE_PROVIDERS, RefinedItem } from './services/priceProvider';
+import { loadState, saveState } from './services/storageService';
+import { getQuantity, applyCheapestOption } from './services/units';
+import { TripCostSettings } from './services/tripOptimizer';
+import { getCachedPrices, setCachedPrices, clearPriceCache } from './services/priceCache';
+import { recordPriceObservations } from './services/priceHistory';
+import { searchPrices } from './services/searchBatcher';
+import { QueuePosition, RequestCancelledError, RequestPriority, getQueuePositions, subscribeToQueue, whenAllAborted } from './services/requestScheduler';
+import { looksLikeList, splitBulkInput } from './services/listParser';
+import { parseImport, ImportedItem } from './services/listImport';
+import { ShoppingIngredient, describeIngredient } from './services/recipes';
+import { SharedList, readShareFragment, clearShareFragment, getNewSharedItems } from './services/shareLink';
+import { getProjectedTotal, suggestSubstitutions } from './services/budget';
+import { SORT_MODES, groupItems } from './services/listSort';
+import { ALLERGENS, EMPTY_DIETARY_PROFILE, getItemConflicts, getProfileKey } from './services/dietary';
+import { DEFAULT_STORE_PREFERENCES, withoutExcluded } from './services/storePreferences';
+import { GPS_LOCATION_ID, createSavedLocation, needsRepricing, resolveLocation } from './services/locations';
+import { DEFAULT_USAGE_LIMITS, estimateListCalls, getRecentCalls, getTodayUsage, subscribeToUsage } from './services/usageMeter';
+import { CurrencyContext, DEFAULT_EXCHANGE_RATES, SUPPORTED_CURRENCIES, formatMoney, getCurrencySymbol } from './services/currency';
 import ShoppingItemCard from './components/ShoppingItemCard';
 import SummaryModal from './components/SummaryModal';
+import ListSwitcher from './components/ListSwitcher';
+import PriceHistoryModal from './components/PriceHistoryModal';
+import BudgetBar from './components/BudgetBar';
+import ExportModal from './components/ExportModal';
+import SharedListModal from './components/SharedListModal';
+import RecipeImportModal from './components/RecipeImportModal';
+import TripReconcileModal from './components/TripReconcileModal';
+import TripHistoryModal from './components/TripHistoryModal';
+import InStoreMode from './components/InStoreMode';
+import CategoryOrderModal from './components/CategoryOrderModal';
+import StorePreferencesEditor from './components/StorePreferencesEditor';
+import LocationSwitcher from './components/LocationSwitcher';
+import UsagePanel from './components/UsagePanel';
 
 // Explicit global type for process.env and aistudio
 declare const process: {
@@ -24,41 +56,132 @@ declare global {
   }
 }
 
+const DEFAULT_SETTINGS: AppSettings = {
+  theme: 'light',
+  priceProvider: 'gemini',
+  currency: 'GBP',
+  exchangeRates: DEFAULT_EXCHANGE_RATES,
+  distanceUnit: 'metric',
+  maxDistance: 10,
+  splitTripCostMode: 'per-stop',
+  splitTripCostPerStop: 2,
+  splitTripCostPerDistance: 0.3,
+  priceCacheTtlHours: 24,
+  searchBatchSize: 5,
+  budget: 0,
+  sortMode: 'category',
+  dietaryProfile: EMPTY_DIETARY_PROFILE,
+  storePreferences: DEFAULT_STORE_PREFERENCES,
+  categoryOrders: {},
+  savedLocations: [],
+  activeLocationId: GPS_LOCATION_ID,
+  usageLimits: DEFAULT_USAGE_LIMITS
+};
+
+const createId = () => Math.random().toString(36).substring(7);
+
+const createList = (name: string): ShoppingList => ({
+  id: createId(),
+  name,
+  items: [],
+  createdAt: Date.now(),
+  cachedRankedShops: null,
+  lastCalculationFingerprint: ''
+});
+
 const App: React.FC = () => {
-  const [items, setItems] = useState<ShoppingItem[]>([]);
+  // Restored synchronously so the first render (and any resumed work) sees the saved lists.
+  const [restored] = useState(loadState);
+  const [lists, setLists] = useState<ShoppingList[]>(() => restored?.lists ?? [createList('Shopping List')]);
+  const [activeListId, setActiveListId] = useState<string>(() => restored?.activeListId ?? '');
   const [inputValue, setInputValue] = useState('');
   const [location, setLocation] = useState<LocationState | null>(null);
   const [loadingLocation, setLoadingLocation] = useState(false);
   const [isUpdatingLocation, setIsUpdatingLocation] = useState(false);
+  const [newLocationName, setNewLocationName] = useState('');
+  const [newLocationQuery, setNewLocationQuery] = useState('');
   const [showSummary, setShowSummary] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showRates, setShowRates] = useState(false);
+  const [historyItem, setHistoryItem] = useState<ShoppingItem | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [exportStrategy, setExportStrategy] = useState<RankedShop | null>(null);
+  const [incomingShare, setIncomingShare] = useState<SharedList | null>(null);
+  const [showRecipeImport, setShowRecipeImport] = useState(false);
+  const [reconcileStrategy, setReconcileStrategy] = useState<RankedShop | null>(null);
+  const [reconcileSkipped, setReconcileSkipped] = useState<number[]>([]);
+  const [isInStorePaused, setIsInStorePaused] = useState(false);
+  const [showCategoryOrder, setShowCategoryOrder] = useState(false);
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>([]);
+  const [tripHistory, setTripHistory] = useState<{ tripId?: string } | null>(null);
   const [isDeletingAll, setIsDeletingAll] = useState(false);
   const [selectionMode, setSelectionMode] = useState(false);
   const [configError, setConfigError] = useState<string | null>(null);
   const [quotaStatus, setQuotaStatus] = useState<'none' | 'rate-limit' | 'daily-exhausted'>('none');
   const [hasPaidKey, setHasPaidKey] = useState(false);
   
-  const [lastCalculationFingerprint, setLastCalculationFingerprint] = useState<string>('');
-  const [cachedRankedShops, setCachedRankedShops] = useState<any[] | null>(null);
-
-  const [settings, setSettings] = useState<AppSettings>({
-    theme: 'light',
-    currency: '£',
-    distanceUnit: 'metric',
-    maxDistance: 10,
-    locationString: ''
-  });
+  const [settings, setSettings] = useState<AppSettings>(() => ({ ...DEFAULT_SETTINGS, ...restored?.settings }));
   
   const scrollRef = useRef<HTMLDivElement>(null);
+  // Async pipelines outlive the render that started them, so they read lists through a ref.
+  const listsRef = useRef(lists);
+  listsRef.current = lists;
+  // The share listener is registered once, so it reads the currency through a ref too.
+  const currencyRef = useRef(settings.currency);
+  currencyRef.current = settings.currency;
+  const inFlightRef = useRef(new Set<string>());
+  // One controller per item, aborted when it's deleted so its queued requests go with it.
+  const abortersRef = useRef(new Map<string, AbortController>());
+  const [queuePositions, setQueuePositions] = useState<Record<string, QueuePosition>>(getQueuePositions);
+  const [todayUsage, setTodayUsage] = useState(getTodayUsage);
+
+  const activeList = lists.find(l => l.id === activeListId) ?? lists.find(l => !l.isArchived) ?? lists[0];
+  const items = activeList.items;
+  const provider = getPriceProvider(settings.priceProvider);
+  const activeLocation = resolveLocation(settings.activeLocationId, settings.savedLocations, location);
+
+  // List-level edits (add, delete, select) always target the list on screen.
+  const setItems = (update: React.SetStateAction<ShoppingItem[]>) => {
+    const listId = activeList.id;
+    setLists(prev => prev.map(l => l.id === listId 
+      ? { ...l, items: typeof update === 'function' ? update(l.items) : update } 
+      : l));
+  };
+
+  // Pipeline updates find the item wherever it lives, even if the user has switched lists.
+  const mapItem = (id: string, update: (item: ShoppingItem) => ShoppingItem) => {
+    setLists(prev => prev.map(l => l.items.some(i => i.id === id) 
+      ? { ...l, items: l.items.map(i => i.id === id ? update(i) : i) } 
+      : l));
+  };
+  const updateItem = (id: string, patch: Partial<ShoppingItem>) => mapItem(id, i => ({ ...i, ...patch }));
+
+  const updateList = (id: string, patch: Partial<ShoppingList>) => {
+    setLists(prev => prev.map(l => l.id === id ? { ...l, ...patch } : l));
+  };
+
+  const getLocationForItem = (id: string) => {
+    const list = listsRef.current.find(l => l.items.some(i => i.id === id));
+    return list ? getListLocation(list) : activeLocation;
+  };
+
+  // The list on screen follows the header's location; lists in the background keep
+  // pricing at their own default, if they have one.
+  const getListLocation = (list: ShoppingList) =>
+    list.id === activeList.id || !list.defaultLocationId
+      ? activeLocation
+      : resolveLocation(list.defaultLocationId, settings.savedLocations, location);
 
   // Check for API key and Paid status on mount
   useEffect(() => {
     const key = process.env.API_KEY;
-    if (!key || key === "undefined" || key === "") {
+    if (provider.requiresApiKey && (!key || key === "undefined" || key === "")) {
       setConfigError("Missing API_KEY. Please ensure it is set in environment.");
+    } else {
+      setConfigError(null);
     }
     checkPaidKey();
-  }, []);
+  }, [provider.requiresApiKey]);
 
   const checkPaidKey = async () => {
     if (window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function') {
@@ -76,12 +199,25 @@ const App: React.FC = () => {
     }
   };
 
+  const currencyContext = useMemo<CurrencyContext>(() => ({
+    base: settings.currency,
+    rates: settings.exchangeRates
+  }), [settings.currency, settings.exchangeRates]);
+
+  const tripCosts = useMemo<TripCostSettings>(() => ({
+    mode: settings.splitTripCostMode,
+    costPerStop: settings.splitTripCostPerStop,
+    costPerDistance: settings.splitTripCostPerDistance
+  }), [settings.splitTripCostMode, settings.splitTripCostPerStop, settings.splitTripCostPerDistance]);
+
   const currentFingerprint = useMemo(() => {
-    const readyItems = items.filter(i => i.status === 'ready').map(i => i.id + i.name).sort().join('|');
-    const locKey = location ? `${location.lat.toFixed(4)},${location.lng.toFixed(4)}` : 'none';
-    const manualLocKey = settings.manualLocation ? `${settings.manualLocation.lat.toFixed(4)},${settings.manualLocation.lng.toFixed(4)}` : 'none';
-    return `${readyItems}-${locKey}-${manualLocKey}-${settings.maxDistance}-${settings.distanceUnit}`;
-  }, [items, location, settings.manualLocation, settings.maxDistance, settings.distanceUnit]);
+    const readyItems = items.filter(i => i.status === 'ready').map(i => i.id + i.name + getQuantity(i) + (i.unit || 'each')).sort().join('|');
+    const locKey = activeLocation ? `${activeLocation.lat.toFixed(4)},${activeLocation.lng.toFixed(4)}` : 'none';
+    const tripKey = `${tripCosts.mode}:${tripCosts.costPerStop}:${tripCosts.costPerDistance}`;
+    const currencyKey = `${currencyContext.base}:${JSON.stringify(currencyContext.rates)}`;
+    const storeKey = JSON.stringify(settings.storePreferences);
+    return `${provider.id}-${readyItems}-${locKey}-${settings.maxDistance}-${settings.distanceUnit}-${tripKey}-${currencyKey}-${storeKey}`;
+  }, [provider.id, items, activeLocation, settings.maxDistance, settings.distanceUnit, tripCosts, currencyContext, settings.storePreferences]);
 
   useEffect(() => {
     if (settings.theme === 'dark') {
@@ -97,6 +233,60 @@ const App: React.FC = () => {
     fetchCurrentLocation();
   }, []);
 
+  // A shared link carries its list in the URL fragment; offer it once it's decoded.
+  useEffect(() => {
+    const checkForShare = () => {
+      readShareFragment(window.location.hash, currencyRef.current).then(shared => {
+        if (shared) setIncomingShare(shared);
+      });
+    };
+    checkForShare();
+    window.addEventListener('hashchange', checkForShare);
+    return () => window.removeEventListener('hashchange', checkForShare);
+  }, []);
+
+  useEffect(() => {
+    saveState({ lists, activeListId: activeList.id, settings });
+  }, [lists, activeList.id, settings]);
+
+  useEffect(() => subscribeToQueue(() => setQueuePositions(getQueuePositions())), []);
+  useEffect(() => subscribeToUsage(() => setTodayUsage(getTodayUsage())), []);
+
+  // Anything mid-pipeline that nobody is working on (restored after a reload, or copied
+  // into a duplicated list) picks up where it left off.
+  useEffect(() => {
+    lists.filter(l => !l.isArchived).forEach(list => {
+      list.items.forEach(item => {
+        if (inFlightRef.current.has(item.id)) return;
+        if (item.status === 'pending' || item.status === 'correcting') {
+          processItem(item.id, item.originalName);
+        } else if (item.status === 'searching') {
+          continueWithItem(item.id, item.name, item.emoji);
+        }
+      });
+    });
+  }, [lists]);
+
+  // Prices fetched somewhere else are for somebody else's shops. Moving far enough
+  // (switching to the holiday let, or GPS catching up) re-prices the list on screen;
+  // the cache makes this free when coming back to a place already priced.
+  // Items with no pricedLocation are assumed priced where we were before this move, and
+  // pinned there if they stay, so later moves are measured from it too.
+  const previousLocationRef = useRef<LocationState | null>(null);
+  useEffect(() => {
+    if (!activeLocation) return;
+    const assumedPricedAt = previousLocationRef.current || activeLocation;
+    previousLocationRef.current = activeLocation;
+    activeList.items.forEach(item => {
+      if (inFlightRef.current.has(item.id)) return;
+      if (needsRepricing(item, activeLocation, assumedPricedAt)) {
+        continueWithItem(item.id, item.name, item.emoji, false, 'low');
+      } else if (item.status === 'ready' && !item.pricedLocation) {
+        updateItem(item.id, { pricedLocation: assumedPricedAt });
+      }
+    });
+  }, [activeLocation?.lat, activeLocation?.lng, activeList.id]);
+
   const fetchCurrentLocation = () => {
     setLoadingLocation(true);
     if ("geolocation" in navigator) {
@@ -105,7 +295,6 @@ const App: React.FC = () => {
           const loc = { lat: pos.coords.latitude, lng: pos.coords.longitude };
           setLocation(loc);
           setLoadingLocation(false);
-          setSettings(s => ({ ...s, locationString: 'Current GPS Location', manualLocation: loc }));
         },
         () => setLoadingLocation(false)
       );
@@ -114,73 +303,160 @@ const App: React.FC = () => {
     }
   };
 
+  const applyRefinement = async (id: string, refined: RefinedItem) => {
+    // Deleted while it was being refined: its controller is gone, so don't start a search.
+    if (!listsRef.current.some(l => l.items.some(i => i.id === id))) return;
+    if (refined.quantity && refined.quantity > 0) {
+      updateItem(id, { quantity: refined.quantity, unit: refined.unit || 'each' });
+    }
+    if (refined.alternatives?.length) {
+      updateItem(id, { alternatives: refined.alternatives });
+    }
+    if (refined.category) {
+      updateItem(id, { category: refined.category });
+    }
+    if (refined.dietaryConflicts) {
+      updateItem(id, { dietaryConflicts: refined.dietaryConflicts });
+    }
+    if (refined.isVague && refined.options) {
+      updateItem(id, { 
+        name: refined.name, 
+        emoji: refined.emoji, 
+        status: 'vague',
+        options: refined.options,
+        example: refined.example
+      });
+    } else {
+      await continueWithItem(id, refined.name, refined.emoji);
+    }
+  };
+
+  const getItemSignal = (id: string) => {
+    let controller = abortersRef.current.get(id);
+    if (!controller) {
+      controller = new AbortController();
+      abortersRef.current.set(id, controller);
+    }
+    return controller.signal;
+  };
+
+  const cancelItemRequests = (ids: string[]) => ids.forEach(id => {
+    abortersRef.current.get(id)?.abort();
+    abortersRef.current.delete(id);
+  });
+
+  // Called when an item's pipeline settles, however it ended.
+  const releaseItem = (id: string) => {
+    inFlightRef.current.delete(id);
+    abortersRef.current.delete(id);
+  };
+
+  // Refines are cheap and the user is looking at them, so they jump ahead of searches.
   const processItem = async (id: string, name: string) => {
-    setItems(prev => prev.map(i => i.id === id ? { ...i, status: 'correcting', error: undefined } : i));
+    inFlightRef.current.add(id);
+    updateItem(id, { status: 'correcting', error: undefined });
     try {
-      const refined = await refineItem(name);
+      const refined = await provider.refineItem(name, settings.dietaryProfile, { priority: 'high', signal: getItemSignal(id), tags: [id] });
       setQuotaStatus('none');
-      if (refined.isVague && refined.options) {
-        setItems(prev => prev.map(i => i.id === id ? { 
-          ...i, 
-          name: refined.name, 
-          emoji: refined.emoji, 
-          status: 'vague',
-          options: refined.options,
-          example: refined.example
-        } : i));
-      } else {
-        await continueWithItem(id, refined.name, refined.emoji);
-      }
+      await applyRefinement(id, refined);
     } catch (error) {
       handleProcessingError(id, error);
+    } finally {
+      releaseItem(id);
+    }
+  };
+
+  // Pasted lists are refined in one call; if that call fails, or skips an item, those
+  // items go through the usual one-at-a-time path instead.
+  const processItems = async (entries: Array<{ id: string; name: string }>) => {
+    entries.forEach(({ id }) => {
+      inFlightRef.current.add(id);
+      updateItem(id, { status: 'correcting', error: undefined });
+    });
+    let results: Array<RefinedItem | null>;
+    try {
+      results = await provider.refineItems(entries.map(e => e.name), settings.dietaryProfile, {
+        priority: 'high',
+        signal: whenAllAborted(entries.map(e => getItemSignal(e.id))),
+        tags: entries.map(e => e.id)
+      });
+      setQuotaStatus('none');
+    } catch (error) {
+      console.error("Batch refine failed, refining items one by one", error);
+      results = entries.map(() => null);
     }
+    await Promise.all(entries.map(async ({ id, name }, idx) => {
+      const refined = results[idx];
+      if (!refined) {
+        releaseItem(id);
+        return processItem(id, name);
+      }
+      try {
+        await applyRefinement(id, refined);
+      } catch (error) {
+        handleProcessingError(id, error);
+      } finally {
+        releaseItem(id);
+      }
+    }));
   };
 
-  const continueWithItem = async (id: string, name: string, emoji: string) => {
-    setItems(prev => prev.map(i => i.id === id ? { ...i, name, emoji, status: 'searching', error: undefined } : i));
+  const continueWithItem = async (id: string, name: string, emoji: string, forceRefresh: boolean = false, priority: RequestPriority = 'normal') => {
+    inFlightRef.current.add(id);
+    updateItem(id, { name, emoji, status: 'searching', error: undefined });
     try {
-      const currentLoc = settings.manualLocation || location;
+      const currentLoc = getLocationForItem(id);
       if (currentLoc) {
-        const topOptions = await findTopPriceOptions(name, currentLoc);
-        setQuotaStatus('none');
-        const cheapest = topOptions[0] || { shop: "Unknown", price: 0, currency: settings.currency };
-        setItems(prev => prev.map(i => i.id === id ? { 
-          ...i, 
-          topOptions: topOptions,
-          cheapestShop: cheapest.shop,
-          price: cheapest.price,
-          currency: cheapest.currency,
-          status: 'ready' 
-        } : i));
+        const ttlMs = settings.priceCacheTtlHours * 60 * 60 * 1000;
+        const profileKey = getProfileKey(settings.dietaryProfile);
+        let result = forceRefresh ? null : getCachedPrices(provider.id, name, currentLoc, ttlMs, profileKey);
+        if (!result) {
+          const options = await searchPrices(provider, name, currentLoc, settings.searchBatchSize, settings.dietaryProfile, { priority, signal: getItemSignal(id), tags: [id] });
+          setQuotaStatus('none');
+          recordPriceObservations(name, options, currentLoc);
+          result = options.length > 0 
+            ? setCachedPrices(provider.id, name, currentLoc, options, ttlMs, profileKey) 
+            : { options, fetchedAt: Date.now() };
+        }
+        // The cache keeps every shop, so un-excluding one brings it back without a search.
+        const { options, fetchedAt } = result;
+        const topOptions = withoutExcluded(options, settings.storePreferences);
+        mapItem(id, i => applyCheapestOption({ ...i, topOptions, pricedAt: fetchedAt, pricedLocation: currentLoc, status: 'ready' }, currencyContext));
       } else {
-        setItems(prev => prev.map(i => i.id === id ? { ...i, status: 'ready' } : i));
+        updateItem(id, { status: 'ready' });
       }
     } catch (error) {
       handleProcessingError(id, error);
+    } finally {
+      releaseItem(id);
     }
   };
 
   const handleProcessingError = (id: string, error: any) => {
+    if (error instanceof RequestCancelledError) return;
     const isQuotaError = error instanceof GeminiError && error.status === 429;
     if (isQuotaError) {
       setQuotaStatus(error.isDaily ? 'daily-exhausted' : 'rate-limit');
     }
     
-    setItems(prev => prev.map(i => i.id === id ? { 
-      ...i, 
+    updateItem(id, { 
       status: 'error', 
       error: error?.message || "Something went wrong." 
-    } : i));
+    });
   };
 
-  const handleUpdateLocation = async () => {
-    if (!settings.locationString || settings.locationString === 'Current GPS Location') return;
+  const handleSaveLocation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = newLocationQuery.trim();
+    if (!query) return;
     setIsUpdatingLocation(true);
     try {
-      const coords = await getCoordsFromLocation(settings.locationString);
+      const coords = await provider.getCoordsFromLocation(query);
       if (coords) {
-        setSettings(s => ({ ...s, manualLocation: coords }));
-        setLocation(coords);
+        const saved = createSavedLocation(newLocationName.trim() || query, query, coords);
+        setSettings(s => ({ ...s, savedLocations: [...s.savedLocations, saved], activeLocationId: saved.id }));
+        setNewLocationName('');
+        setNewLocationQuery('');
       }
     } catch (e) {
       console.error("Location update failed", e);
@@ -188,25 +464,155 @@ const App: React.FC = () => {
     setIsUpdatingLocation(false);
   };
 
-  const addItem = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!inputValue.trim()) return;
-    const newItem: ShoppingItem = {
-      id: Math.random().toString(36).substring(7),
-      originalName: inputValue.trim(),
-      name: inputValue.trim(),
+  const handleDeleteLocation = (id: string) => {
+    setSettings(s => ({
+      ...s,
+      savedLocations: s.savedLocations.filter(l => l.id !== id),
+      activeLocationId: s.activeLocationId === id ? GPS_LOCATION_ID : s.activeLocationId
+    }));
+    setLists(prev => prev.map(l => l.defaultLocationId === id ? { ...l, defaultLocationId: undefined } : l));
+  };
+
+  const switchLocation = (id: string) => {
+    setSettings(s => ({ ...s, activeLocationId: id }));
+    if (id === GPS_LOCATION_ID) fetchCurrentLocation();
+  };
+
+  const addItems = (names: string[]) => {
+    if (names.length === 0) return;
+    const newItems: ShoppingItem[] = names.map(name => ({
+      id: createId(),
+      originalName: name,
+      name,
       emoji: '🛒',
       status: 'pending'
-    };
-    setItems(prev => [...prev, newItem]);
+    }));
+    setItems(prev => [...prev, ...newItems]);
     setInputValue('');
-    processItem(newItem.id, newItem.originalName);
+    if (newItems.length === 1) {
+      processItem(newItems[0].id, newItems[0].originalName);
+    } else {
+      processItems(newItems.map(i => ({ id: i.id, name: i.originalName })));
+    }
+    setTimeout(() => scrollRef.current?.scrollIntoView({ behavior: 'smooth' }), 100);
+  };
+
+  // Imported and shared items keep any prices they came with; only unpriced ones are
+  // refined and searched.
+  const addImportedItems = (imported: ImportedItem[], replace: boolean = false): ShoppingItem[] => {
+    if (replace) cancelItemRequests(items.map(i => i.id));
+    const newItems: ShoppingItem[] = imported.map(item => {
+      const withId = { ...item, id: createId() };
+      return withId.status === 'ready' ? applyCheapestOption(withId, currencyContext) : withId;
+    });
+    setItems(prev => replace ? newItems : [...prev, ...newItems]);
+    const pending = newItems.filter(i => i.status === 'pending');
+    if (pending.length > 0) processItems(pending.map(i => ({ id: i.id, name: i.originalName })));
+    return newItems;
+  };
+
+  const handleImport = async (file: File): Promise<string> => {
+    const { items: imported, errors } = parseImport(await file.text(), file.name, settings.currency);
+    const newItems = imported.length > 0 ? addImportedItems(imported) : [];
+    const priced = newItems.length - newItems.filter(i => i.status === 'pending').length;
+    return [
+      `Imported ${newItems.length} items (${priced} already priced).`,
+      ...errors.slice(0, 5),
+      ...(errors.length > 5 ? [`...and ${errors.length - 5} more problems.`] : [])
+    ].join('\n');
+  };
+
+  // Recipe ingredients arrive already scaled; the pipeline still refines and prices them.
+  const handleAddIngredients = (ingredients: ShoppingIngredient[]) => {
+    addImportedItems(ingredients.map(i => ({
+      originalName: describeIngredient(i),
+      name: i.name,
+      emoji: '🛒',
+      quantity: i.quantity,
+      unit: i.unit,
+      status: 'pending'
+    })));
+    setShowRecipeImport(false);
     setTimeout(() => scrollRef.current?.scrollIntoView({ behavior: 'smooth' }), 100);
   };
 
-  const deleteItem = (id: string) => setItems(prev => prev.filter(i => i.id !== id));
+  const handleStartTrip = (strategy: RankedShop) => {
+    updateList(activeList.id, { activeTrip: { strategy, startedAt: Date.now(), lineStatus: {} } });
+    setShowSummary(false);
+    setIsInStorePaused(false);
+  };
+
+  const setTripLineStatus = (lineIndex: number, status: TripLineStatus | null) => {
+    const trip = activeList.activeTrip;
+    if (!trip) return;
+    const lineStatus = { ...trip.lineStatus };
+    if (status) lineStatus[lineIndex] = status;
+    else delete lineStatus[lineIndex];
+    updateList(activeList.id, { activeTrip: { ...trip, lineStatus } });
+  };
+
+  const openReconcile = (strategy: RankedShop, skipped: number[] = []) => {
+    setReconcileSkipped(skipped);
+    setReconcileStrategy(strategy);
+  };
+
+  // Bought items can come off the list. Anything not found stays on it, with the shop
+  // that didn't have it dropped from its options so the next strategy looks elsewhere.
+  const handleFinishTrip = (removeBought: boolean) => {
+    const trip = activeList.activeTrip;
+    if (!trip) return;
+    const linesWith = (status: TripLineStatus) => trip.strategy.receipt.filter((_, idx) => trip.lineStatus[idx] === status);
+    const bought = new Set(linesWith('checked').map(line => line.itemName));
+    const missingAt = new Map(linesWith('missing').map(line => [line.itemName, line.shopName || trip.strategy.shopName]));
+    const markMissing = (item: ShoppingItem) => {
+      const remaining = item.topOptions?.filter(o => o.shop !== missingAt.get(item.name)) || [];
+      return remaining.length > 0 ? applyCheapestOption({ ...item, topOptions: remaining }, currencyContext) : item;
+    };
+    setLists(prev => prev.map(l => l.id === activeList.id 
+      ? { 
+          ...l, 
+          activeTrip: undefined, 
+          items: l.items
+            .filter(i => !(removeBought && bought.has(i.name)))
+            .map(i => missingAt.has(i.name) ? markMissing(i) : i)
+        } 
+      : l));
+  };
+
+  const handleAcceptShare = (replace: boolean) => {
+    if (!incomingShare) return;
+    addImportedItems(replace ? incomingShare.items : getNewSharedItems(items, incomingShare.items), replace);
+    setSelectionMode(false);
+    dismissShare();
+  };
+
+  const dismissShare = () => {
+    clearShareFragment();
+    setIncomingShare(null);
+  };
+
+  const addItem = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = inputValue.trim();
+    if (name) addItems([name]);
+  };
+
+  // Typed text is always one item; only a pasted list is split up, and added directly
+  // since a single-line input would flatten it.
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = e.clipboardData.getData('text');
+    if (!looksLikeList(text)) return;
+    e.preventDefault();
+    addItems(splitBulkInput(`${inputValue}\n${text}`));
+  };
+
+  const deleteItem = (id: string) => {
+    cancelItemRequests([id]);
+    setItems(prev => prev.filter(i => i.id !== id));
+  };
   const deleteSelected = () => {
     if (window.confirm(`Delete ${selectedCount} selected items?`)) {
+      cancelItemRequests(items.filter(i => i.isSelected).map(i => i.id));
       setItems(prev => prev.filter(i => !i.isSelected));
       setSelectionMode(false);
     }
@@ -217,10 +623,21 @@ const App: React.FC = () => {
       setTimeout(() => setIsDeletingAll(false), 3000);
       return;
     }
+    cancelItemRequests(items.map(i => i.id));
     setItems([]);
     setIsDeletingAll(false);
     setSelectionMode(false);
   };
+  const changeQuantity = (id: string, quantity: number, unit: QuantityUnit) => mapItem(id, i => i.topOptions 
+    ? applyCheapestOption({ ...i, quantity, unit }, currencyContext) 
+    : { ...i, quantity, unit });
+  // Swapping re-prices the item under its new name; the variant we left is offered back.
+  const swapForAlternative = (id: string, alternative: string) => {
+    const item = items.find(i => i.id === id);
+    if (!item) return;
+    updateItem(id, { alternatives: [item.name, ...(item.alternatives || []).filter(a => a !== alternative)] });
+    continueWithItem(id, alternative, item.emoji);
+  };
   const toggleSelect = (id: string) => setItems(prev => prev.map(i => i.id === id ? { ...i, isSelected: !i.isSelected } : i));
   const handleToggleSelectAll = () => {
     const allSelected = items.every(i => i.isSelected);
@@ -230,10 +647,105 @@ const App: React.FC = () => {
 
   const selectedCount = items.filter(i => i.isSelected).length;
   const readyItemsCount = items.filter(i => i.status === 'ready').length;
+  const projectedTotal = useMemo(() => getProjectedTotal(items, currencyContext), [items, currencyContext]);
+  const budgetSuggestions = useMemo(() => suggestSubstitutions(items, currencyContext), [items, currencyContext]);
+  const layoutOrder = settings.categoryLayoutShop ? settings.categoryOrders[settings.categoryLayoutShop] : undefined;
+  const itemGroups = useMemo(
+    () => groupItems(items, settings.sortMode, currencyContext, layoutOrder),
+    [items, settings.sortMode, currencyContext, layoutOrder]
+  );
+  const knownShops = useMemo(() => {
+    const { excluded, favourites, loyaltyDiscounts } = settings.storePreferences;
+    const shops = new Set([...Object.keys(settings.categoryOrders), ...excluded, ...favourites, ...Object.keys(loyaltyDiscounts)]);
+    lists.forEach(list => list.items.forEach(item => item.topOptions?.forEach(o => shops.add(o.shop))));
+    return [...shops].sort();
+  }, [lists, settings.categoryOrders, settings.storePreferences]);
+
+  // Re-filters priced items against the new exclusions, from the cache where it still
+  // has the full set of shops.
+  const updateStorePreferences = (prefs: StorePreferences) => {
+    const excludedChanged = prefs.excluded.join('|') !== settings.storePreferences.excluded.join('|');
+    setSettings(s => ({ ...s, storePreferences: prefs }));
+    if (!excludedChanged) return;
+    const ttlMs = settings.priceCacheTtlHours * 60 * 60 * 1000;
+    const profileKey = getProfileKey(settings.dietaryProfile);
+    setLists(prev => prev.map(list => {
+      const loc = getListLocation(list);
+      return {
+        ...list,
+        items: list.items.map(item => {
+          if (item.status !== 'ready' || !item.topOptions) return item;
+          const cached = loc ? getCachedPrices(provider.id, item.name, loc, ttlMs, profileKey) : null;
+          return applyCheapestOption({ ...item, topOptions: withoutExcluded(cached?.options || item.topOptions, prefs) }, currencyContext);
+        })
+      };
+    }));
+  };
+
+  const toggleGroup = (key: string) =>
+    setCollapsedGroups(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+
+  const updateDietaryProfile = (patch: Partial<DietaryProfile>) =>
+    setSettings(s => ({ ...s, dietaryProfile: { ...s.dietaryProfile, ...patch } }));
+
+  const toggleAllergen = (allergen: DietaryProfile['allergens'][number]) => {
+    const { allergens } = settings.dietaryProfile;
+    updateDietaryProfile({ allergens: allergens.includes(allergen) ? allergens.filter(a => a !== allergen) : [...allergens, allergen] });
+  };
+
+  const saveCategoryOrder = (shop: string, order: GroceryCategory[] | null) => {
+    setSettings(s => {
+      const { [shop]: _, ...rest } = s.categoryOrders;
+      return { ...s, categoryOrders: order ? { ...rest, [shop]: order } : rest };
+    });
+  };
+
+  const handleSummaryResult = (ranked: RankedShop[]) => {
+    updateList(activeList.id, { cachedRankedShops: ranked, lastCalculationFingerprint: currentFingerprint });
+  };
+
+  const switchList = (id: string) => {
+    const defaultLocationId = lists.find(l => l.id === id)?.defaultLocationId;
+    if (defaultLocationId && defaultLocationId !== settings.activeLocationId) switchLocation(defaultLocationId);
+    setActiveListId(id);
+    setSelectionMode(false);
+    setIsDeletingAll(false);
+  };
 
-  const handleSummaryResult = (ranked: any[]) => {
-    setCachedRankedShops(ranked);
-    setLastCalculationFingerprint(currentFingerprint);
+  const handleCreateList = (name: string) => {
+    const list = createList(name);
+    setLists(prev => [...prev, list]);
+    switchList(list.id);
+  };
+
+  // Copies keep their refined names, emojis and prices, so no Gemini calls are repeated.
+  const handleDuplicateList = (id: string) => {
+    const source = lists.find(l => l.id === id);
+    if (!source) return;
+    const copy: ShoppingList = {
+      ...source,
+      id: createId(),
+      name: `${source.name} (Copy)`,
+      createdAt: Date.now(),
+      isArchived: false,
+      items: source.items.map(i => ({ ...i, id: createId(), isSelected: false })),
+      cachedRankedShops: null,
+      lastCalculationFingerprint: ''
+    };
+    setLists(prev => [...prev, copy]);
+    switchList(copy.id);
+  };
+
+  const handleArchiveList = (id: string, archived: boolean) => {
+    let next = lists.map(l => l.id === id ? { ...l, isArchived: archived } : l);
+    if (!next.some(l => !l.isArchived)) next = [...next, createList('Shopping List')];
+    setLists(next);
+    if (archived && id === activeList.id) switchList(next.find(l => !l.isArchived)!.id);
+  };
+
+  const handleSetListLocation = (id: string, locationId?: string) => {
+    updateList(id, { defaultLocationId: locationId });
+    if (locationId && id === activeList.id) switchLocation(locationId);
   };
 
   return (
@@ -254,6 +766,9 @@ const App: React.FC = () => {
       
       <div className="max-w-2xl mx-auto flex flex-col px-4 pt-8 pb-32 md:pt-12">
         <header className="mb-8 flex flex-col items-center relative">
+          <button onClick={() => { setExportStrategy(null); setShowExport(true); }} className="absolute left-0 top-0 p-3 text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors bg-white dark:bg-slate-800 rounded-full shadow-sm">
+            <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4" /></svg>
+          </button>
           <button onClick={() => setShowSettings(true)} className="absolute right-0 top-0 p-3 text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors bg-white dark:bg-slate-800 rounded-full shadow-sm">
             <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
           </button>
@@ -262,14 +777,36 @@ const App: React.FC = () => {
             {hasPaidKey && <span className="text-[10px] bg-indigo-600 text-white px-2 py-0.5 rounded-full uppercase tracking-tighter align-top mt-1">Unlimited</span>}
           </h1>
           <p className="text-slate-400 dark:text-slate-500 font-medium text-sm uppercase tracking-widest mt-1">Minimalist Intelligence</p>
+          <ListSwitcher
+            lists={lists}
+            activeListId={activeList.id}
+            onSwitch={switchList}
+            onCreate={handleCreateList}
+            onRename={(id, name) => updateList(id, { name })}
+            onDuplicate={handleDuplicateList}
+            onArchive={handleArchiveList}
+            savedLocations={settings.savedLocations}
+            onSetLocation={handleSetListLocation}
+          />
+          <LocationSwitcher
+            savedLocations={settings.savedLocations}
+            activeLocationId={settings.activeLocationId}
+            isLocating={loadingLocation}
+            onSwitch={switchLocation}
+            onManage={() => setShowSettings(true)}
+          />
         </header>
 
-        <form onSubmit={addItem} className="relative mb-6 group">
-          <input type="text" value={inputValue} onChange={(e) => setInputValue(e.target.value)} placeholder="Add to list..." className="w-full bg-white dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-3xl py-5 px-8 text-lg focus:outline-none focus:border-indigo-500 transition-all shadow-sm group-hover:shadow-md text-slate-900 dark:text-slate-100" />
+        <form onSubmit={addItem} className="relative mb-3 group">
+          <input type="text" value={inputValue} onChange={(e) => setInputValue(e.target.value)} onPaste={handlePaste} placeholder="Add to list, or paste a whole list..." className="w-full bg-white dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-3xl py-5 px-8 text-lg focus:outline-none focus:border-indigo-500 transition-all shadow-sm group-hover:shadow-md text-slate-900 dark:text-slate-100" />
           <button type="submit" className="absolute right-3 top-3 bottom-3 bg-slate-900 dark:bg-indigo-600 text-white px-5 rounded-2xl hover:bg-indigo-600 transition-colors shadow-lg">
             <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}><path d="M12 4v16m8-8H4" /></svg>
           </button>
         </form>
+        <div className="flex justify-end gap-4 mb-6 px-2">
+          <button onClick={() => setTripHistory({})} className="text-xs font-bold uppercase tracking-tighter text-slate-400 hover:text-indigo-600">🧾 Trips</button>
+          <button onClick={() => setShowRecipeImport(true)} className="text-xs font-bold uppercase tracking-tighter text-slate-400 hover:text-indigo-600">🍳 From a recipe</button>
+        </div>
 
         {items.length > 0 && (
           <div className="flex items-center justify-between mb-4 px-2">
@@ -285,6 +822,41 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {items.length > 0 && (
+          <div className="flex items-center justify-between gap-3 mb-4 px-2">
+            <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-xl">
+              {SORT_MODES.map(mode => (
+                <button key={mode.id} onClick={() => setSettings(s => ({ ...s, sortMode: mode.id }))} className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-tighter transition-all ${settings.sortMode === mode.id ? 'bg-white dark:bg-slate-700 shadow-sm text-indigo-600 dark:text-indigo-400' : 'text-slate-400'}`}>{mode.label}</button>
+              ))}
+            </div>
+            {settings.sortMode === 'category' && (
+              <button onClick={() => setShowCategoryOrder(true)} className="text-xs font-bold uppercase tracking-tighter text-slate-400 hover:text-indigo-600 truncate">
+                🗺️ {settings.categoryLayoutShop || 'Default'} layout
+              </button>
+            )}
+          </div>
+        )}
+
+        {activeList.activeTrip && isInStorePaused && (
+          <button onClick={() => setIsInStorePaused(false)} className="mb-6 w-full flex items-center justify-between p-4 bg-indigo-600 text-white rounded-2xl shadow-lg">
+            <span className="text-sm font-black">🛒 Shopping at {activeList.activeTrip.strategy.shopName}</span>
+            <span className="text-[10px] font-black uppercase tracking-widest">
+              {Object.keys(activeList.activeTrip.lineStatus).length}/{activeList.activeTrip.strategy.receipt.length} · Resume
+            </span>
+          </button>
+        )}
+
+        {settings.budget > 0 && items.length > 0 && (
+          <BudgetBar
+            projectedTotal={projectedTotal}
+            budget={settings.budget}
+            currency={settings.currency}
+            isComplete={readyItemsCount === items.length}
+            suggestions={budgetSuggestions}
+            onSwap={swapForAlternative}
+          />
+        )}
+
         <div className="flex-1 space-y-4 mb-8">
           {items.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-24 opacity-10">
@@ -292,18 +864,36 @@ const App: React.FC = () => {
               <p className="text-xl font-black uppercase tracking-widest">Cart is empty</p>
             </div>
           ) : (
-            items.map(item => (
-              <ShoppingItemCard 
-                key={item.id} 
-                item={item} 
-                selectionMode={selectionMode}
-                currencySymbol={settings.currency}
-                onDelete={deleteItem}
-                onSelect={toggleSelect}
-                onOptionPick={(id, name) => continueWithItem(id, name, item.emoji)}
-                onRetry={(id) => processItem(id, item.originalName)}
-              />
-            ))
+            itemGroups.map(group => {
+              const isCollapsed = collapsedGroups.includes(group.key);
+              return (
+                <div key={group.key} className="space-y-4">
+                  {group.label && (
+                    <button onClick={() => toggleGroup(group.key)} className="w-full flex items-center justify-between px-2 pt-2 text-[11px] font-black text-slate-400 uppercase tracking-widest hover:text-indigo-600">
+                      <span>{group.emoji} {group.label} · {group.items.length}</span>
+                      <svg className={`h-4 w-4 transition-transform ${isCollapsed ? '-rotate-90' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}><path d="M19 9l-7 7-7-7" /></svg>
+                    </button>
+                  )}
+                  {!isCollapsed && group.items.map(item => (
+                    <ShoppingItemCard 
+                      key={item.id} 
+                      item={item} 
+                      selectionMode={selectionMode}
+                      currencyContext={currencyContext}
+                      dietaryConflicts={getItemConflicts(item, settings.dietaryProfile)}
+                      queuePosition={queuePositions[item.id]}
+                      onDelete={deleteItem}
+                      onSelect={toggleSelect}
+                      onQuantityChange={changeQuantity}
+                      onOptionPick={(id, name) => continueWithItem(id, name, item.emoji)}
+                      onRetry={(id) => processItem(id, item.originalName)}
+                      onRefresh={(id) => continueWithItem(id, item.name, item.emoji, true, 'high')}
+                      onShowHistory={() => setHistoryItem(item)}
+                    />
+                  ))}
+                </div>
+              );
+            })
           )}
           <div ref={scrollRef} />
         </div>
@@ -346,12 +936,49 @@ const App: React.FC = () => {
                   )}
                 </div>
 
+                {provider.requiresApiKey && (
+                  <UsagePanel
+                    usage={todayUsage}
+                    recentCalls={getRecentCalls()}
+                    limits={settings.usageLimits}
+                    listEstimate={estimateListCalls(items, settings.searchBatchSize)}
+                    onChangeLimits={(usageLimits) => setSettings({...settings, usageLimits})}
+                  />
+                )}
+
                 <div>
-                   <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest block mb-2">Location</label>
-                   <div className="flex flex-col gap-3">
-                    <input type="text" placeholder="City or Postcode..." className="w-full bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-2xl py-4 px-5 text-sm dark:text-white" value={settings.locationString} onChange={(e) => setSettings({...settings, locationString: e.target.value})} />
-                    <button onClick={handleUpdateLocation} className="py-3 bg-slate-900 dark:bg-indigo-600 text-white rounded-2xl text-xs font-bold hover:bg-indigo-700 transition-colors">Set Location</button>
+                   <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest block mb-2">Price Source</label>
+                   <div className="flex bg-slate-50 dark:bg-slate-800 p-1 rounded-2xl border border-slate-100 dark:border-slate-700">
+                    {PRICE_PROVIDERS.map(p => (
+                      <button key={p.id} onClick={() => setSettings({...settings, priceProvider: p.id})} className={`flex-1 py-3 rounded-xl text-xs font-bold transition-all ${settings.priceProvider === p.id ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400'}`}>{p.label}</button>
+                    ))}
                   </div>
+                   {!provider.requiresApiKey && <p className="text-[10px] text-slate-400 mt-2 leading-relaxed">Prices come from the bundled demo catalogue (London and Manchester). No API key or network needed.</p>}
+                </div>
+
+                <div>
+                   <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest block mb-2">Locations</label>
+                   {settings.savedLocations.length > 0 && (
+                     <div className="space-y-2 mb-3">
+                       {settings.savedLocations.map(saved => (
+                         <div key={saved.id} className={`flex items-center gap-2 p-2 pl-4 rounded-2xl border-2 ${saved.id === settings.activeLocationId ? 'border-indigo-200 dark:border-indigo-800' : 'border-slate-100 dark:border-slate-700'}`}>
+                           <button onClick={() => switchLocation(saved.id)} className="flex-1 flex flex-col text-left overflow-hidden">
+                             <span className="text-sm font-bold text-slate-700 dark:text-slate-200 truncate">📍 {saved.name}</span>
+                             <span className="text-[10px] text-slate-400 font-bold uppercase tracking-tighter truncate">{saved.query}</span>
+                           </button>
+                           <button onClick={() => handleDeleteLocation(saved.id)} className="px-2 text-[10px] font-bold uppercase text-slate-400 hover:text-red-500">Delete</button>
+                         </div>
+                       ))}
+                     </div>
+                   )}
+                   <form onSubmit={handleSaveLocation} className="flex flex-col gap-3">
+                    <div className="flex gap-3">
+                      <input type="text" placeholder="Name (Home, Work...)" className="w-2/5 bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-2xl py-4 px-5 text-sm dark:text-white" value={newLocationName} onChange={(e) => setNewLocationName(e.target.value)} />
+                      <input type="text" placeholder="City or Postcode..." className="flex-1 bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-2xl py-4 px-5 text-sm dark:text-white" value={newLocationQuery} onChange={(e) => setNewLocationQuery(e.target.value)} />
+                    </div>
+                    <button type="submit" disabled={isUpdatingLocation} className="py-3 bg-slate-900 dark:bg-indigo-600 text-white rounded-2xl text-xs font-bold hover:bg-indigo-700 transition-colors disabled:opacity-50">{isUpdatingLocation ? 'Finding...' : 'Save Location'}</button>
+                  </form>
+                   <p className="text-[10px] text-slate-400 mt-2 leading-relaxed">Switch between saved places from under the list name. Moving more than a few km re-prices the list for the shops near the new place.</p>
                 </div>
 
                 <div>
@@ -381,6 +1008,115 @@ const App: React.FC = () => {
                    </div>
                 </div>
 
+                <div>
+                   <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest block mb-2">Split Trip Cost</label>
+                   <div className="flex bg-slate-50 dark:bg-slate-800 p-1 rounded-2xl border border-slate-100 dark:border-slate-700 mb-3">
+                    <button onClick={() => setSettings({...settings, splitTripCostMode: 'per-stop'})} className={`flex-1 py-3 rounded-xl text-xs font-bold transition-all ${settings.splitTripCostMode === 'per-stop' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400'}`}>Per Extra Stop</button>
+                    <button onClick={() => setSettings({...settings, splitTripCostMode: 'per-distance'})} className={`flex-1 py-3 rounded-xl text-xs font-bold transition-all ${settings.splitTripCostMode === 'per-distance' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400'}`}>Per {settings.distanceUnit === 'metric' ? 'km' : 'mi'}</button>
+                  </div>
+                   <div className="flex items-center gap-3">
+                     <span className="text-xs font-bold text-slate-400">{settings.currency}</span>
+                     <input 
+                       type="number" 
+                       min="0" 
+                       step="0.05"
+                       value={settings.splitTripCostMode === 'per-stop' ? settings.splitTripCostPerStop : settings.splitTripCostPerDistance} 
+                       onChange={(e) => {
+                         const value = Math.max(0, parseFloat(e.target.value) || 0);
+                         setSettings(settings.splitTripCostMode === 'per-stop' 
+                           ? {...settings, splitTripCostPerStop: value} 
+                           : {...settings, splitTripCostPerDistance: value});
+                       }}
+                       className="flex-1 bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-2xl py-3 px-4 text-sm font-bold dark:text-white"
+                     />
+                     <span className="text-[10px] font-bold text-slate-400 uppercase">{settings.splitTripCostMode === 'per-stop' ? 'per stop' : `per ${settings.distanceUnit === 'metric' ? 'km' : 'mi'}`}</span>
+                   </div>
+                   <p className="text-[10px] text-slate-400 mt-2 leading-relaxed">What an extra store on the trip costs you in time and fuel. Split trips only win when they save more than this.</p>
+                </div>
+
+                <StorePreferencesEditor
+                  shops={knownShops}
+                  preferences={settings.storePreferences}
+                  onChange={updateStorePreferences}
+                />
+
+                <div>
+                   <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest block mb-2">Budget</label>
+                   <div className="flex items-center gap-3">
+                     <span className="text-xs font-bold text-slate-400">{getCurrencySymbol(settings.currency)}</span>
+                     <input 
+                       type="number" 
+                       min="0" 
+                       step="1"
+                       placeholder="Off"
+                       value={settings.budget || ''} 
+                       onChange={(e) => setSettings({...settings, budget: Math.max(0, parseFloat(e.target.value) || 0)})}
+                       className="flex-1 bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-2xl py-3 px-4 text-sm font-bold dark:text-white"
+                     />
+                     <span className="text-[10px] font-bold text-slate-400 uppercase">per trip</span>
+                   </div>
+                   <p className="text-[10px] text-slate-400 mt-2 leading-relaxed">Tracks a running total against what you want to spend and suggests cheaper swaps when you go over. Leave empty to turn off.</p>
+                </div>
+
+                <div>
+                   <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest block mb-2">Dietary Profile</label>
+                   <div className="flex flex-wrap gap-2 mb-3">
+                     {ALLERGENS.map(a => (
+                       <button key={a.id} onClick={() => toggleAllergen(a.id)} className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-tighter border-2 transition-all ${settings.dietaryProfile.allergens.includes(a.id) ? 'bg-rose-50 dark:bg-rose-900/30 border-rose-200 dark:border-rose-800 text-rose-600 dark:text-rose-400' : 'border-slate-100 dark:border-slate-700 text-slate-400'}`}>
+                         {settings.dietaryProfile.allergens.includes(a.id) ? '✕ ' : ''}{a.label}
+                       </button>
+                     ))}
+                   </div>
+                   <div className="flex bg-slate-50 dark:bg-slate-800 p-1 rounded-2xl border border-slate-100 dark:border-slate-700 mb-3">
+                     {(['none', 'vegetarian', 'vegan'] as const).map(diet => (
+                       <button key={diet} onClick={() => updateDietaryProfile({ diet })} className={`flex-1 py-3 rounded-xl text-xs font-bold capitalize transition-all ${settings.dietaryProfile.diet === diet ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400'}`}>{diet === 'none' ? 'Any Diet' : diet}</button>
+                     ))}
+                   </div>
+                   <div className="flex bg-slate-50 dark:bg-slate-800 p-1 rounded-2xl border border-slate-100 dark:border-slate-700 mb-3">
+                     {(['none', 'halal', 'kosher'] as const).map(religious => (
+                       <button key={religious} onClick={() => updateDietaryProfile({ religious })} className={`flex-1 py-3 rounded-xl text-xs font-bold capitalize transition-all ${settings.dietaryProfile.religious === religious ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400'}`}>{religious === 'none' ? 'No Preference' : religious}</button>
+                     ))}
+                   </div>
+                   <label className="flex items-center gap-3 text-xs font-bold text-slate-600 dark:text-slate-300">
+                     <input type="checkbox" checked={settings.dietaryProfile.preferOrganic} onChange={(e) => updateDietaryProfile({ preferOrganic: e.target.checked })} className="w-4 h-4 accent-indigo-600" />
+                     Prefer organic
+                   </label>
+                   <p className="text-[10px] text-slate-400 mt-2 leading-relaxed">Shapes suggestions and which products get priced. Items that may not fit get a badge; always check the label.</p>
+                </div>
+
+                <div>
+                   <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest block mb-2">Price Cache</label>
+                   <div className="flex gap-3">
+                     <select 
+                       value={settings.priceCacheTtlHours} 
+                       onChange={(e) => setSettings({...settings, priceCacheTtlHours: parseInt(e.target.value)})}
+                       className="flex-1 bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-2xl py-3 px-4 text-xs font-bold dark:text-white"
+                     >
+                       <option value={1}>Reuse prices for 1 hour</option>
+                       <option value={6}>Reuse prices for 6 hours</option>
+                       <option value={24}>Reuse prices for 1 day</option>
+                       <option value={72}>Reuse prices for 3 days</option>
+                       <option value={168}>Reuse prices for 1 week</option>
+                     </select>
+                     <button onClick={clearPriceCache} className="px-4 bg-slate-100 dark:bg-slate-800 text-slate-500 rounded-2xl text-xs font-bold hover:text-red-500 transition-colors">Clear</button>
+                   </div>
+                </div>
+
+                <div>
+                   <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest block mb-2">Search Batching</label>
+                   <select 
+                     value={settings.searchBatchSize} 
+                     onChange={(e) => setSettings({...settings, searchBatchSize: parseInt(e.target.value)})}
+                     className="w-full bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-2xl py-3 px-4 text-xs font-bold dark:text-white"
+                   >
+                     <option value={1}>Search one item at a time</option>
+                     <option value={3}>Up to 3 items per search</option>
+                     <option value={5}>Up to 5 items per search</option>
+                     <option value={10}>Up to 10 items per search</option>
+                   </select>
+                   <p className="text-[10px] text-slate-400 mt-2 leading-relaxed">Each search uses one rate-limited slot (about 30s on the free tier). Bigger batches price long lists much faster, at some cost to accuracy.</p>
+                </div>
+
                 <div>
                    <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest block mb-2">Interface Theme</label>
                    <div className="flex bg-slate-50 dark:bg-slate-800 p-1 rounded-2xl border border-slate-100 dark:border-slate-700">
@@ -396,10 +1132,37 @@ const App: React.FC = () => {
                      onChange={(e) => setSettings({...settings, currency: e.target.value})}
                      className="w-full bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-2xl py-3 px-4 text-xs font-bold dark:text-white"
                    >
-                     <option value="£">GBP (£)</option>
-                     <option value="$">USD ($)</option>
-                     <option value="€">EUR (€)</option>
+                     {SUPPORTED_CURRENCIES.map(code => (
+                       <option key={code} value={code}>{code} ({formatMoney(1, code)})</option>
+                     ))}
                    </select>
+                   <button onClick={() => setShowRates(!showRates)} className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-3 hover:text-indigo-600">
+                     {showRates ? 'Hide' : 'Edit'} Exchange Rates
+                   </button>
+                   {showRates && (
+                     <div className="mt-3 space-y-2">
+                       {SUPPORTED_CURRENCIES.filter(code => code !== settings.currency).map(code => (
+                         <div key={code} className="flex items-center gap-3">
+                           <span className="w-20 text-xs font-bold text-slate-500">1 {code} =</span>
+                           <input
+                             type="number"
+                             min="0"
+                             step="0.0001"
+                             value={+(settings.exchangeRates[code] / settings.exchangeRates[settings.currency]).toFixed(4)}
+                             onChange={(e) => {
+                               const value = parseFloat(e.target.value);
+                               if (!(value > 0)) return;
+                               // Rates are stored against EUR; edits are made against the chosen currency.
+                               setSettings({...settings, exchangeRates: { ...settings.exchangeRates, [code]: value * settings.exchangeRates[settings.currency] }});
+                             }}
+                             className="flex-1 bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-xl py-2 px-3 text-xs font-bold dark:text-white"
+                           />
+                           <span className="text-xs font-bold text-slate-400">{settings.currency}</span>
+                         </div>
+                       ))}
+                       <button onClick={() => setSettings({...settings, exchangeRates: DEFAULT_EXCHANGE_RATES})} className="text-[10px] font-bold text-slate-400 uppercase tracking-widest hover:text-red-500">Reset Rates</button>
+                     </div>
+                   )}
                 </div>
               </div>
               <button onClick={() => setShowSettings(false)} className="w-full mt-10 bg-indigo-600 text-white py-5 rounded-3xl font-black text-lg hover:bg-indigo-700 transition-colors">Save Changes</button>
@@ -407,15 +1170,108 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {showSummary && (location || settings.manualLocation) && (
+        {historyItem && (
+          <PriceHistoryModal
+            itemName={historyItem.name}
+            emoji={historyItem.emoji}
+            currencyContext={currencyContext}
+            onClose={() => setHistoryItem(null)}
+          />
+        )}
+
+        {showExport && (
+          <ExportModal
+            list={activeList}
+            strategy={exportStrategy}
+            currencyContext={currencyContext}
+            onImport={exportStrategy ? undefined : handleImport}
+            onClose={() => setShowExport(false)}
+          />
+        )}
+
+        {showCategoryOrder && (
+          <CategoryOrderModal
+            shops={knownShops}
+            categoryOrders={settings.categoryOrders}
+            layoutShop={settings.categoryLayoutShop}
+            onSave={saveCategoryOrder}
+            onSelectLayout={(shop) => setSettings(s => ({ ...s, categoryLayoutShop: shop }))}
+            onClose={() => setShowCategoryOrder(false)}
+          />
+        )}
+
+        {activeList.activeTrip && !isInStorePaused && (
+          <InStoreMode
+            trip={activeList.activeTrip}
+            items={items}
+            currencyContext={currencyContext}
+            categoryOrders={settings.categoryOrders}
+            onSetStatus={setTripLineStatus}
+            onLogPrices={() => {
+              const trip = activeList.activeTrip!;
+              openReconcile(trip.strategy, trip.strategy.receipt.map((_, idx) => idx).filter(idx => trip.lineStatus[idx] !== 'checked'));
+            }}
+            onFinish={handleFinishTrip}
+            onPause={() => setIsInStorePaused(true)}
+          />
+        )}
+
+        {reconcileStrategy && activeLocation && (
+          <TripReconcileModal
+            strategy={reconcileStrategy}
+            listName={activeList.name}
+            skippedLines={reconcileSkipped}
+            location={activeLocation}
+            currencyContext={currencyContext}
+            onSaved={(trip) => { setReconcileStrategy(null); setShowSummary(false); setTripHistory({ tripId: trip.id }); }}
+            onClose={() => setReconcileStrategy(null)}
+          />
+        )}
+
+        {tripHistory && (
+          <TripHistoryModal
+            currencyContext={currencyContext}
+            initialTripId={tripHistory.tripId}
+            onClose={() => setTripHistory(null)}
+          />
+        )}
+
+        {showRecipeImport && (
+          <RecipeImportModal
+            provider={provider}
+            onAdd={handleAddIngredients}
+            onClose={() => setShowRecipeImport(false)}
+          />
+        )}
+
+        {incomingShare && (
+          <SharedListModal
+            shared={incomingShare}
+            currentListName={activeList.name}
+            newItemCount={getNewSharedItems(items, incomingShare.items).length}
+            onMerge={() => handleAcceptShare(false)}
+            onReplace={() => handleAcceptShare(true)}
+            onCancel={dismissShare}
+          />
+        )}
+
+        {showSummary && activeLocation && (
           <SummaryModal 
             items={items} 
-            location={settings.manualLocation || location!} 
-            currencySymbol={settings.currency} 
+            location={activeLocation} 
+            currencyContext={currencyContext} 
             distanceUnit={settings.distanceUnit} 
             maxDistance={settings.maxDistance}
-            cachedData={lastCalculationFingerprint === currentFingerprint ? cachedRankedShops : null}
+            tripCosts={tripCosts}
+            storePreferences={settings.storePreferences}
+            budget={settings.budget}
+            budgetSuggestions={budgetSuggestions}
+            provider={provider}
+            cachedData={activeList.lastCalculationFingerprint === currentFingerprint ? activeList.cachedRankedShops : null}
             onCalculationDone={handleSummaryResult}
+            onExport={(strategy) => { setExportStrategy(strategy); setShowExport(true); }}
+            onLogTrip={(strategy) => openReconcile(strategy)}
+            onStartTrip={handleStartTrip}
             onClose={() => setShowSummary(false)} 
           />
         )}
@@ -0,0 +1,88 @@
+import React from 'react';
+import { LocationState, RankedShop, UnitSystem } from '../types';
+
+interface Props {
+  origin: LocationState;
+  strategies: RankedShop[];
+  activeIndex: number;
+  maxDistance: number;
+  distanceUnit: UnitSystem;
+  onSelect: (index: number) => void;
+}
+
+const WIDTH = 320;
+const HEIGHT = 160;
+const PADDING = 18;
+const KM_PER_DEGREE = 111.32;
+const KM_PER_MILE = 1.609344;
+
+// A plain projected sketch rather than map tiles: no key, no network, and at city scale
+// an equirectangular projection is accurate enough to show who is nearer.
+const BranchMap: React.FC<Props> = ({ origin, strategies, activeIndex, maxDistance, distanceUnit, onSelect }) => {
+  const active = strategies[activeIndex];
+  const activeShops = new Set(active?.stops?.map(s => s.shopName) || (active ? [active.shopName] : []));
+
+  // One pin per branch, numbered by the single-store strategy it belongs to.
+  const pins: Array<{ shopName: string; branchName: string; coords: LocationState; rank: number; index: number }> = [];
+  strategies.forEach((strategy, index) => {
+    (strategy.stops || [strategy]).forEach(stop => {
+      if (!stop.coords || pins.some(p => p.shopName === stop.shopName)) return;
+      pins.push({ shopName: stop.shopName, branchName: stop.branchName, coords: stop.coords, rank: pins.length + 1, index: strategy.stops ? -1 : index });
+    });
+  });
+  if (pins.length === 0) return null;
+
+  const lngScale = Math.cos(origin.lat * Math.PI / 180);
+  const points = [origin, ...pins.map(p => p.coords)];
+  const minX = Math.min(...points.map(p => p.lng * lngScale));
+  const maxX = Math.max(...points.map(p => p.lng * lngScale));
+  const minY = Math.min(...points.map(p => p.lat));
+  const maxY = Math.max(...points.map(p => p.lat));
+  const span = Math.max(maxX - minX, (maxY - minY) * (WIDTH / HEIGHT), 0.005);
+  const scale = (WIDTH - PADDING * 2) / span;
+  const offsetX = (WIDTH - (maxX - minX) * scale) / 2;
+  const offsetY = (HEIGHT - (maxY - minY) * scale) / 2;
+  const project = (p: LocationState) => ({
+    x: offsetX + (p.lng * lngScale - minX) * scale,
+    y: offsetY + (maxY - p.lat) * scale
+  });
+  const home = project(origin);
+  // Split trips are drawn as the driving loop, in the order the stops are visited.
+  const route = (active?.stops || (active ? [active] : []))
+    .map(stop => pins.find(p => p.shopName === stop.shopName))
+    .filter((pin): pin is typeof pins[number] => !!pin)
+    .map(pin => project(pin.coords));
+  const radiusKm = distanceUnit === 'metric' ? maxDistance : maxDistance * KM_PER_MILE;
+  const radius = (radiusKm / KM_PER_DEGREE) * scale;
+
+  return (
+    <div className="rounded-2xl overflow-hidden border border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-800/50">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto block">
+        <circle cx={home.x} cy={home.y} r={radius} className="fill-indigo-500/5 stroke-indigo-300 dark:stroke-indigo-700" strokeDasharray="4 4" />
+        {route.length > 0 && (
+          <polyline points={[home, ...route, home].map(p => `${p.x},${p.y}`).join(' ')} className="fill-none stroke-indigo-400" strokeWidth={1.5} strokeDasharray="3 3" strokeLinejoin="round" />
+        )}
+        {pins.map(pin => {
+          const at = project(pin.coords);
+          const isActive = activeShops.has(pin.shopName);
+          return (
+            <g key={pin.shopName} onClick={() => pin.index >= 0 && onSelect(pin.index)} className={pin.index >= 0 ? 'cursor-pointer' : ''}>
+              <title>{pin.branchName}</title>
+              <circle cx={at.x} cy={at.y} r={isActive ? 9 : 7} className={isActive ? 'fill-indigo-600' : 'fill-white dark:fill-slate-700 stroke-slate-300 dark:stroke-slate-500'} strokeWidth={1.5} />
+              <text x={at.x} y={at.y + 3} textAnchor="middle" className={`text-[9px] font-black ${isActive ? 'fill-white' : 'fill-slate-500 dark:fill-slate-300'}`}>{pin.rank}</text>
+            </g>
+          );
+        })}
+        <circle cx={home.x} cy={home.y} r={5} className="fill-emerald-500 stroke-white" strokeWidth={2} />
+      </svg>
+      <div className="px-3 py-2 flex flex-wrap gap-x-3 gap-y-1 border-t border-slate-200 dark:border-slate-800">
+        <span className="text-[9px] font-bold text-emerald-600 uppercase">● You</span>
+        {pins.map(pin => (
+          <span key={pin.shopName} className={`text-[9px] font-bold uppercase truncate ${activeShops.has(pin.shopName) ? 'text-indigo-600 dark:text-indigo-400' : 'text-slate-400'}`}>{pin.rank}. {pin.shopName}</span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BranchMap;
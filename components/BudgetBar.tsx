@@ -0,0 +1,53 @@
+import React from 'react';
+import { SubstitutionSuggestion } from '../services/budget';
+import { formatMoney } from '../services/currency';
+
+interface Props {
+  projectedTotal: number;
+  budget: number;
+  currency: string;
+  isComplete: boolean;
+  suggestions: SubstitutionSuggestion[];
+  onSwap: (id: string, alternative: string) => void;
+}
+
+const BudgetBar: React.FC<Props> = ({ projectedTotal, budget, currency, isComplete, suggestions, onSwap }) => {
+  const isOver = projectedTotal > budget;
+  const fill = Math.min(100, (projectedTotal / budget) * 100);
+
+  return (
+    <div className={`mb-6 p-4 rounded-2xl border ${isOver ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800/40' : 'bg-white dark:bg-slate-800 border-slate-100 dark:border-slate-700'}`}>
+      <div className="flex items-baseline justify-between mb-2">
+        <span className="text-[11px] font-black text-slate-400 uppercase tracking-widest">{isComplete ? 'Projected' : 'Projected so far'}</span>
+        <span className={`font-mono text-sm font-black ${isOver ? 'text-red-600 dark:text-red-400' : 'text-slate-800 dark:text-slate-100'}`}>
+          {formatMoney(projectedTotal, currency)} <span className="text-slate-400 font-bold">/ {formatMoney(budget, currency)}</span>
+        </span>
+      </div>
+      <div className="h-2 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+        <div className={`h-full rounded-full transition-all ${isOver ? 'bg-red-500' : fill > 85 ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${fill}%` }}></div>
+      </div>
+      {isOver && (
+        <div className="mt-3">
+          <p className="text-xs font-bold text-red-600 dark:text-red-400">⚠️ {formatMoney(projectedTotal - budget, currency)} over budget, even at the cheapest shops.</p>
+          {suggestions.length > 0 && (
+            <div className="mt-3 space-y-2">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Try a cheaper variant</p>
+              {suggestions.map(({ item, lineCost, alternatives }) => (
+                <div key={item.id} className="flex items-center gap-2 flex-wrap">
+                  <span className="text-xs font-bold text-slate-700 dark:text-slate-200">{item.emoji} {item.name} <span className="font-mono text-slate-400">{formatMoney(lineCost, currency)}</span></span>
+                  {alternatives.map(alt => (
+                    <button key={alt} onClick={() => onSwap(item.id, alt)} className="text-[10px] font-bold px-2 py-1 rounded-full bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-indigo-600 dark:text-indigo-400 hover:border-indigo-400">
+                      → {alt}
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BudgetBar;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { GroceryCategory } from '../types';
+import { DEFAULT_CATEGORY_ORDER, getCategory } from '../services/categories';
+
+interface Props {
+  shops: string[];
+  categoryOrders: Record<string, GroceryCategory[]>;
+  layoutShop?: string;
+  onSave: (shop: string, order: GroceryCategory[] | null) => void;
+  onSelectLayout: (shop?: string) => void;
+  onClose: () => void;
+}
+
+// Every supermarket puts its aisles in a different order; this lets the list and
+// in-store mode walk them the way a particular store is laid out.
+const CategoryOrderModal: React.FC<Props> = ({ shops, categoryOrders, layoutShop, onSave, onSelectLayout, onClose }) => {
+  const [shop, setShop] = useState<string | undefined>(layoutShop || shops[0]);
+  const saved = shop ? categoryOrders[shop] : undefined;
+  // Categories added since the order was saved slot in at the end.
+  const order = saved ? [...saved, ...DEFAULT_CATEGORY_ORDER.filter(c => !saved.includes(c))] : DEFAULT_CATEGORY_ORDER;
+
+  const move = (idx: number, delta: number) => {
+    if (!shop) return;
+    const next = [...order];
+    [next[idx], next[idx + delta]] = [next[idx + delta], next[idx]];
+    onSave(shop, next);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md z-[70] flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 w-full max-w-md rounded-3xl p-8 border border-slate-200 dark:border-slate-800 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest">Aisle Order</p>
+            <h2 className="text-2xl font-black">🗺️ Store Layout</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><svg className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M6 18L18 6M6 6l12 12" strokeWidth={3} /></svg></button>
+        </div>
+
+        {shops.length === 0 ? (
+          <p className="text-xs text-slate-500 dark:text-slate-400 leading-relaxed">Price a few items first; shops appear here once they turn up in the results.</p>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest block mb-2">Shop</label>
+              <select value={shop} onChange={(e) => setShop(e.target.value)} className="w-full bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-xl py-3 px-4 text-sm font-bold focus:outline-none focus:border-indigo-500 dark:text-white">
+                {shops.map(s => <option key={s} value={s}>{s}{categoryOrders[s] ? ' · custom' : ''}</option>)}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              {order.map((id, idx) => {
+                const category = getCategory(id);
+                return (
+                  <div key={id} className="flex items-center gap-3 p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-800">
+                    <span className="text-[10px] font-black text-slate-400 w-4">{idx + 1}</span>
+                    <span className="flex-1 text-sm font-bold text-slate-800 dark:text-slate-100">{category.emoji} {category.name}</span>
+                    <button onClick={() => move(idx, -1)} disabled={idx === 0} className="px-2 text-slate-400 hover:text-indigo-600 disabled:opacity-20">▲</button>
+                    <button onClick={() => move(idx, 1)} disabled={idx === order.length - 1} className="px-2 text-slate-400 hover:text-indigo-600 disabled:opacity-20">▼</button>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="space-y-3">
+              <button
+                onClick={() => onSelectLayout(layoutShop === shop ? undefined : shop)}
+                className={`w-full py-4 rounded-2xl text-sm font-black transition-colors ${layoutShop === shop ? 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400' : 'bg-indigo-600 text-white hover:bg-indigo-700'}`}
+              >
+                {layoutShop === shop ? `List follows ${shop} ✓` : `Sort My List Like ${shop}`}
+              </button>
+              {saved && (
+                <button onClick={() => shop && onSave(shop, null)} className="w-full py-3 text-slate-400 text-xs font-bold uppercase tracking-widest hover:text-red-500">Reset to Default Order</button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CategoryOrderModal;
@@ -0,0 +1,134 @@
+import React, { useRef, useState } from 'react';
+import { RankedShop, ShoppingList } from '../types';
+import { CurrencyContext } from '../services/currency';
+import { createShareLink } from '../services/shareLink';
+import { ExportFormat, exportJson, exportCsv, exportMarkdown, exportPrintableHtml, downloadFile, openPrintable } from '../services/listExport';
+
+interface Props {
+  list: ShoppingList;
+  strategy: RankedShop | null;
+  currencyContext: CurrencyContext;
+  // Only offered from the main view; the summary exports its strategy but imports nothing.
+  onImport?: (file: File) => Promise<string>;
+  onClose: () => void;
+}
+
+const FORMATS: Array<{ id: ExportFormat; label: string; hint: string }> = [
+  { id: 'json', label: 'JSON', hint: 'Full backup, re-importable' },
+  { id: 'csv', label: 'CSV', hint: 'Spreadsheets, re-importable' },
+  { id: 'markdown', label: 'Markdown', hint: 'Notes apps and chat' },
+  { id: 'html', label: 'Print', hint: 'Checklist grouped by store' }
+];
+
+const ExportModal: React.FC<Props> = ({ list, strategy, currencyContext, onImport, onClose }) => {
+  const [includeStrategy, setIncludeStrategy] = useState(!!strategy);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [sharePrices, setSharePrices] = useState(true);
+  const [shareMessage, setShareMessage] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const slug = list.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'list';
+
+  const handleExport = (format: ExportFormat) => {
+    const chosen = includeStrategy ? strategy : null;
+    switch (format) {
+      case 'json':
+        return downloadFile(exportJson(list, chosen), `${slug}.json`, 'application/json');
+      case 'csv':
+        return downloadFile(exportCsv(list, chosen, currencyContext), `${slug}.csv`, 'text/csv');
+      case 'markdown':
+        return downloadFile(exportMarkdown(list, chosen, currencyContext), `${slug}.md`, 'text/markdown');
+      case 'html':
+        return openPrintable(exportPrintableHtml(list, chosen, currencyContext));
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      const url = await createShareLink(list, sharePrices);
+      if (navigator.share) {
+        await navigator.share({ title: list.name, url });
+        setShareMessage(null);
+      } else {
+        await navigator.clipboard.writeText(url);
+        setShareMessage('Link copied to clipboard.');
+      }
+    } catch (e) {
+      // Dismissing the share sheet rejects too; that's not worth reporting.
+      if ((e as Error)?.name === 'AbortError') return;
+      console.error("Sharing failed:", e);
+      setShareMessage("Couldn't create a share link.");
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onImport) return;
+    setIsImporting(true);
+    setImportMessage(await onImport(file));
+    setIsImporting(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md z-[80] flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 w-full max-w-md rounded-3xl p-8 border border-slate-200 dark:border-slate-800 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <div className="overflow-hidden">
+            <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest">{onImport ? 'Import & Export' : 'Export'}</p>
+            <h2 className="text-2xl font-black truncate">{list.name}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><svg className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M6 18L18 6M6 6l12 12" strokeWidth={3} /></svg></button>
+        </div>
+
+        <div className="space-y-8">
+          <div>
+            <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest block mb-2">Export {list.items.length} items</label>
+            {strategy && (
+              <label className="flex items-center gap-2 mb-3 text-xs font-bold text-slate-500 dark:text-slate-400 cursor-pointer">
+                <input type="checkbox" checked={includeStrategy} onChange={(e) => setIncludeStrategy(e.target.checked)} className="accent-indigo-600" />
+                Include the {strategy.shopName} strategy
+              </label>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+              {FORMATS.map(f => (
+                <button key={f.id} onClick={() => handleExport(f.id)} disabled={list.items.length === 0} className="p-3 bg-slate-50 dark:bg-slate-800 rounded-2xl border border-slate-100 dark:border-slate-700 text-left hover:border-indigo-400 transition-colors disabled:opacity-40">
+                  <span className="block text-sm font-black text-slate-800 dark:text-slate-100">{f.label}</span>
+                  <span className="block text-[10px] text-slate-400 font-bold">{f.hint}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest block mb-2">Share Link</label>
+            <label className="flex items-center gap-2 mb-3 text-xs font-bold text-slate-500 dark:text-slate-400 cursor-pointer">
+              <input type="checkbox" checked={sharePrices} onChange={(e) => setSharePrices(e.target.checked)} className="accent-indigo-600" />
+              Include prices, so they don't have to search again
+            </label>
+            <button onClick={handleShare} disabled={list.items.length === 0} className="w-full py-3 bg-indigo-600 text-white rounded-2xl text-xs font-bold hover:bg-indigo-700 transition-colors disabled:opacity-40">
+              Share List Link
+            </button>
+            <p className="text-[10px] text-slate-400 mt-2 leading-relaxed">The whole list is packed into the link itself. Nothing is uploaded.</p>
+            {shareMessage && <p className="text-xs font-bold text-slate-600 dark:text-slate-300 mt-3">{shareMessage}</p>}
+          </div>
+
+          {onImport && (
+            <div>
+              <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest block mb-2">Import</label>
+              <input ref={fileRef} type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFile} className="hidden" />
+              <button onClick={() => fileRef.current?.click()} disabled={isImporting} className="w-full py-3 bg-slate-900 dark:bg-indigo-600 text-white rounded-2xl text-xs font-bold hover:bg-indigo-700 transition-colors disabled:opacity-50">
+                {isImporting ? 'Importing...' : 'Choose JSON or CSV file'}
+              </button>
+              <p className="text-[10px] text-slate-400 mt-2 leading-relaxed">Items are added to this list. Anything that already has prices is ready straight away; the rest is priced as usual.</p>
+              {importMessage && <p className="text-xs font-bold text-slate-600 dark:text-slate-300 mt-3 whitespace-pre-line">{importMessage}</p>}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportModal;
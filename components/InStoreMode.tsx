@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react';
+import { GroceryCategory, InStoreTrip, ShoppingItem, TripLineStatus } from '../types';
+import { CurrencyContext, convertAmount, formatMoney } from '../services/currency';
+import { formatQuantity, getItemCost, rankPriceOptions } from '../services/units';
+import { classifyItem, getCategory, getCategoryRank } from '../services/categories';
+
+interface Props {
+  trip: InStoreTrip;
+  items: ShoppingItem[];
+  currencyContext: CurrencyContext;
+  categoryOrders: Record<string, GroceryCategory[]>;
+  onSetStatus: (lineIndex: number, status: TripLineStatus | null) => void;
+  onLogPrices: () => void;
+  onFinish: (removeBought: boolean) => void;
+  onPause: () => void;
+}
+
+const InStoreMode: React.FC<Props> = ({ trip, items, currencyContext, categoryOrders, onSetStatus, onLogPrices, onFinish, onPause }) => {
+  const [showSummary, setShowSummary] = useState(false);
+  const { strategy, lineStatus } = trip;
+  const receipt = strategy.receipt;
+  const money = (amount: number) => formatMoney(amount, currencyContext.base);
+  const findItem = (name: string) => items.find(i => i.name === name);
+
+  // Split trips are walked store by store; within a store, aisle by aisle in that
+  // store's own layout if one has been set.
+  const sections = useMemo(() => {
+    const groups: Record<string, { shop: string; category: GroceryCategory; lines: number[] }> = {};
+    receipt.forEach((line, idx) => {
+      const shop = line.shopName || strategy.shopName;
+      const category = items.find(i => i.name === line.itemName)?.category || classifyItem(line.itemName);
+      const key = `${shop}|${category}`;
+      (groups[key] = groups[key] || { shop, category, lines: [] }).lines.push(idx);
+    });
+    const shopOrder = strategy.stops?.map(s => s.shopName) || [strategy.shopName];
+    return Object.values(groups).sort((a, b) =>
+      shopOrder.indexOf(a.shop) - shopOrder.indexOf(b.shop) ||
+      getCategoryRank(a.category, categoryOrders[a.shop]) - getCategoryRank(b.category, categoryOrders[b.shop]));
+  }, [receipt, strategy, items, categoryOrders]);
+
+  const projected = receipt.reduce((sum, l) => sum + l.lineTotal, 0);
+  const checkedLines = receipt.filter((_, idx) => lineStatus[idx] === 'checked');
+  const spent = checkedLines.reduce((sum, l) => sum + l.lineTotal, 0);
+  const doneCount = Object.keys(lineStatus).length;
+  const missingLines = receipt.map((line, idx) => ({ line, idx })).filter(({ idx }) => lineStatus[idx] === 'missing');
+  const leftLines = receipt.filter((_, idx) => !lineStatus[idx]);
+
+  // The next-cheapest shop that stocks it, for items this store didn't have.
+  const nextBestShop = (itemName: string, shopName: string) => {
+    const item = findItem(itemName);
+    if (!item?.topOptions) return null;
+    const option = rankPriceOptions(item.topOptions.filter(o => o.shop !== shopName), item, currencyContext)[0];
+    return option ? { shop: option.shop, cost: convertAmount(getItemCost(option, item), option.currency, currencyContext) } : null;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-50 dark:bg-slate-950 z-[75] flex flex-col">
+      <div className="bg-indigo-600 text-white px-6 pt-6 pb-4 shadow-lg">
+        <div className="flex justify-between items-center mb-3">
+          <div className="overflow-hidden">
+            <p className="text-[10px] font-black uppercase tracking-widest text-indigo-200">In Store</p>
+            <h2 className="text-xl font-black truncate">{strategy.stops ? strategy.shopName : `${strategy.shopName} · ${strategy.branchName}`}</h2>
+          </div>
+          <button onClick={onPause} className="text-[10px] font-black uppercase tracking-widest bg-white/10 px-3 py-2 rounded-full hover:bg-white/20">Back to List</button>
+        </div>
+        <div className="h-2 bg-white/20 rounded-full overflow-hidden mb-2">
+          <div className="h-full bg-white rounded-full transition-all" style={{ width: `${receipt.length ? (doneCount / receipt.length) * 100 : 0}%` }}></div>
+        </div>
+        <div className="flex justify-between text-xs font-bold">
+          <span>{doneCount} of {receipt.length} done</span>
+          <span className="font-mono">{money(spent)} <span className="text-indigo-200">/ {money(projected)}</span></span>
+        </div>
+      </div>
+
+      {!showSummary ? (
+        <div className="flex-1 overflow-y-auto px-4 py-6 space-y-6">
+          {sections.map(section => (
+            <div key={`${section.shop}|${section.category}`}>
+              <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest mb-2 px-2">
+                {getCategory(section.category).emoji} {getCategory(section.category).name}{strategy.stops ? ` · ${section.shop}` : ''}
+              </p>
+              <div className="space-y-2">
+                {section.lines.map(idx => {
+                  const line = receipt[idx];
+                  const status = lineStatus[idx];
+                  const item = findItem(line.itemName);
+                  return (
+                    <div key={idx} className={`flex items-stretch rounded-2xl border-2 overflow-hidden transition-all ${status === 'checked' ? 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800/40 opacity-60' : status === 'missing' ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800/40' : 'bg-white dark:bg-slate-800 border-slate-100 dark:border-slate-700'}`}>
+                      <button onClick={() => onSetStatus(idx, status === 'checked' ? null : 'checked')} className="flex-1 flex items-center gap-4 p-4 text-left min-h-[72px]">
+                        <span className={`w-8 h-8 rounded-full border-2 flex items-center justify-center shrink-0 ${status === 'checked' ? 'bg-emerald-500 border-emerald-500 text-white' : 'border-slate-300 dark:border-slate-600'}`}>
+                          {status === 'checked' && <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}><path d="M5 13l4 4L19 7" /></svg>}
+                        </span>
+                        <span className="flex-1 overflow-hidden">
+                          <span className={`block text-lg font-bold truncate ${status === 'checked' ? 'line-through text-slate-400' : 'text-slate-800 dark:text-slate-100'}`}>{item?.emoji} {line.itemName}</span>
+                          <span className="block text-xs text-slate-400 font-bold">{formatQuantity(line.quantity, line.unit)} · {money(line.lineTotal)}</span>
+                        </span>
+                      </button>
+                      <button onClick={() => onSetStatus(idx, status === 'missing' ? null : 'missing')} className={`px-4 text-[10px] font-black uppercase tracking-tighter border-l-2 ${status === 'missing' ? 'text-amber-600 border-amber-200 dark:border-amber-800/40' : 'text-slate-400 border-slate-100 dark:border-slate-700 hover:text-amber-600'}`}>
+                        {status === 'missing' ? 'Not here' : "Can't find"}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+          <button onClick={() => setShowSummary(true)} className="w-full bg-slate-900 dark:bg-indigo-600 text-white py-5 rounded-3xl font-black text-lg">Finish Trip</button>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto px-6 py-6 space-y-6">
+          <div className="grid grid-cols-3 gap-3">
+            {([['Bought', checkedLines.length], ["Didn't find", missingLines.length], ['Skipped', leftLines.length]] as const).map(([label, count]) => (
+              <div key={label} className="bg-white dark:bg-slate-800 rounded-2xl p-3 text-center border border-slate-100 dark:border-slate-700">
+                <p className="text-2xl font-black">{count}</p>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="p-4 bg-white dark:bg-slate-800 rounded-2xl border border-slate-100 dark:border-slate-700 flex justify-between items-end">
+            <div>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Spent, at projected prices</p>
+              <p className="text-xs text-slate-500 dark:text-slate-400">Full list was {money(projected)}</p>
+            </div>
+            <p className="text-2xl font-black font-mono">{money(spent)}</p>
+          </div>
+
+          {missingLines.length > 0 && (
+            <div>
+              <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest mb-2">Get these elsewhere</p>
+              <div className="space-y-2">
+                {missingLines.map(({ line, idx }) => {
+                  const next = nextBestShop(line.itemName, line.shopName || strategy.shopName);
+                  return (
+                    <div key={idx} className="flex justify-between items-center p-3 bg-amber-50 dark:bg-amber-900/20 rounded-xl border border-amber-200 dark:border-amber-800/40 text-sm">
+                      <span className="font-bold text-slate-800 dark:text-slate-100 truncate">{findItem(line.itemName)?.emoji} {line.itemName}</span>
+                      <span className="text-xs font-bold text-amber-700 dark:text-amber-400 shrink-0">{next ? `${next.shop} · ${money(next.cost)}` : 'No other shop found'}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <button onClick={onLogPrices} disabled={checkedLines.length === 0} className="w-full py-4 bg-indigo-600 text-white rounded-2xl text-sm font-black hover:bg-indigo-700 transition-colors disabled:opacity-40">Log What I Actually Paid</button>
+            <button onClick={() => onFinish(true)} className="w-full py-4 bg-slate-900 dark:bg-slate-700 text-white rounded-2xl text-sm font-black">Done, Remove Bought Items</button>
+            <button onClick={() => onFinish(false)} className="w-full py-3 text-slate-500 text-xs font-bold uppercase tracking-widest">Done, Keep the List</button>
+            <button onClick={() => setShowSummary(false)} className="w-full py-3 text-slate-400 text-xs font-bold uppercase tracking-widest">Keep Shopping</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InStoreMode;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { SavedLocation, ShoppingList } from '../types';
+import { findSavedLocation } from '../services/locations';
+
+interface Props {
+  lists: ShoppingList[];
+  activeListId: string;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onArchive: (id: string, archived: boolean) => void;
+  savedLocations: SavedLocation[];
+  onSetLocation: (id: string, locationId?: string) => void;
+}
+
+const ListSwitcher: React.FC<Props> = ({ lists, activeListId, onSwitch, onCreate, onRename, onDuplicate, onArchive, savedLocations, onSetLocation }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [newListName, setNewListName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const activeList = lists.find(l => l.id === activeListId);
+  const openLists = lists.filter(l => !l.isArchived);
+  const archivedLists = lists.filter(l => l.isArchived);
+
+  const handleToggle = () => {
+    setIsOpen(!isOpen);
+    setRenamingId(null);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newListName.trim()) return;
+    onCreate(newListName.trim());
+    setNewListName('');
+    setIsOpen(false);
+  };
+
+  const startRename = (list: ShoppingList) => {
+    setRenamingId(list.id);
+    setRenameValue(list.name);
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (renamingId && renameValue.trim()) onRename(renamingId, renameValue.trim());
+    setRenamingId(null);
+  };
+
+  const defaultLocation = findSavedLocation(savedLocations, activeList?.defaultLocationId);
+
+  return (
+    <div className="relative mt-4 w-full flex justify-center">
+      <button
+        onClick={handleToggle}
+        className="flex items-center gap-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-full px-4 py-2 text-sm font-bold text-slate-700 dark:text-slate-200 shadow-sm hover:border-indigo-400 transition-colors"
+      >
+        <span className="truncate max-w-[12rem]">{activeList?.name}</span>
+        {defaultLocation && <span className="text-[9px] bg-indigo-100 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-300 px-1.5 py-0.5 rounded font-black uppercase">📍 {defaultLocation.name}</span>}
+        <svg className={`w-4 h-4 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}><path d="M19 9l-7 7-7-7" /></svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full mt-2 z-50 w-full max-w-sm bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl shadow-2xl p-4 space-y-4 text-left">
+          <div className="space-y-1">
+            {openLists.map(list => (
+              <div key={list.id} className={`flex items-center gap-2 p-2 rounded-xl ${list.id === activeListId ? 'bg-indigo-50 dark:bg-indigo-900/30' : 'hover:bg-slate-50 dark:hover:bg-slate-800'}`}>
+                {renamingId === list.id ? (
+                  <form onSubmit={handleRename} className="flex-1 flex gap-2">
+                    <input
+                      autoFocus
+                      type="text"
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      className="flex-1 bg-white dark:bg-slate-800 border border-indigo-200 dark:border-slate-700 rounded-lg py-1 px-2 text-sm dark:text-white"
+                    />
+                    <button type="submit" className="bg-indigo-600 text-white px-3 py-1 rounded-lg text-xs font-bold">Save</button>
+                  </form>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => { onSwitch(list.id); setIsOpen(false); }}
+                      className="flex-1 flex flex-col text-left overflow-hidden"
+                    >
+                      <span className={`text-sm font-bold truncate ${list.id === activeListId ? 'text-indigo-600 dark:text-indigo-400' : 'text-slate-700 dark:text-slate-200'}`}>{list.name}</span>
+                      <span className="text-[10px] text-slate-400 font-bold uppercase tracking-tighter">{list.items.length} items</span>
+                    </button>
+                    <button onClick={() => startRename(list)} className="text-[10px] font-bold uppercase text-slate-400 hover:text-indigo-600">Rename</button>
+                    <button onClick={() => onDuplicate(list.id)} className="text-[10px] font-bold uppercase text-slate-400 hover:text-indigo-600">Copy</button>
+                    <button onClick={() => onArchive(list.id, true)} className="text-[10px] font-bold uppercase text-slate-400 hover:text-red-500">Archive</button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <input
+              type="text"
+              value={newListName}
+              onChange={(e) => setNewListName(e.target.value)}
+              placeholder="New list name..."
+              className="flex-1 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-xl py-2 px-3 text-sm dark:text-white"
+            />
+            <button type="submit" className="bg-slate-900 dark:bg-indigo-600 text-white px-4 rounded-xl text-xs font-bold hover:bg-indigo-600 transition-colors">Create</button>
+          </form>
+
+          <div className="pt-4 border-t border-slate-100 dark:border-slate-800">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Default location for this list</label>
+            <select
+              value={activeList?.defaultLocationId || ''}
+              onChange={(e) => activeList && onSetLocation(activeList.id, e.target.value || undefined)}
+              className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-xl py-2 px-3 text-sm dark:text-white"
+            >
+              <option value="">Wherever I am</option>
+              {savedLocations.map(l => <option key={l.id} value={l.id}>📍 {l.name}</option>)}
+            </select>
+            {savedLocations.length === 0 && <p className="text-[10px] text-slate-400 mt-2">Save a location in settings to pin this list to it.</p>}
+          </div>
+
+          {archivedLists.length > 0 && (
+            <div className="pt-4 border-t border-slate-100 dark:border-slate-800">
+              <button onClick={() => setShowArchived(!showArchived)} className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-indigo-600">
+                {showArchived ? 'Hide' : 'Show'} Archived ({archivedLists.length})
+              </button>
+              {showArchived && (
+                <div className="mt-2 space-y-1">
+                  {archivedLists.map(list => (
+                    <div key={list.id} className="flex items-center justify-between p-2 rounded-xl bg-slate-50 dark:bg-slate-800/50">
+                      <span className="text-sm font-medium text-slate-400 truncate">{list.name}</span>
+                      <button onClick={() => onArchive(list.id, false)} className="text-[10px] font-bold uppercase text-indigo-500 hover:text-indigo-700">Restore</button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ListSwitcher;
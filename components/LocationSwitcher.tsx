@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { SavedLocation } from '../types';
+import { GPS_LOCATION_ID, getLocationLabel } from '../services/locations';
+
+interface Props {
+  savedLocations: SavedLocation[];
+  activeLocationId: string;
+  isLocating: boolean;
+  onSwitch: (id: string) => void;
+  onManage: () => void;
+}
+
+const LocationSwitcher: React.FC<Props> = ({ savedLocations, activeLocationId, isLocating, onSwitch, onManage }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const options = [{ id: GPS_LOCATION_ID, name: 'Current Location', query: 'GPS' }, ...savedLocations];
+
+  return (
+    <div className="relative mt-2 flex justify-center">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 text-[11px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 transition-colors"
+      >
+        <span>{activeLocationId === GPS_LOCATION_ID ? (isLocating ? '📡' : '🛰️') : '📍'}</span>
+        <span className="truncate max-w-[12rem]">{getLocationLabel(activeLocationId, savedLocations)}</span>
+        <svg className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}><path d="M19 9l-7 7-7-7" /></svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full mt-2 z-50 w-64 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl shadow-2xl p-2 text-left">
+          {options.map(option => (
+            <button
+              key={option.id}
+              onClick={() => { onSwitch(option.id); setIsOpen(false); }}
+              className={`w-full flex flex-col p-2 rounded-xl text-left ${option.id === activeLocationId ? 'bg-indigo-50 dark:bg-indigo-900/30' : 'hover:bg-slate-50 dark:hover:bg-slate-800'}`}
+            >
+              <span className={`text-sm font-bold truncate ${option.id === activeLocationId ? 'text-indigo-600 dark:text-indigo-400' : 'text-slate-700 dark:text-slate-200'}`}>{option.id === GPS_LOCATION_ID ? '🛰️' : '📍'} {option.name}</span>
+              <span className="text-[10px] text-slate-400 font-bold uppercase tracking-tighter truncate">{option.query}</span>
+            </button>
+          ))}
+          <button
+            onClick={() => { onManage(); setIsOpen(false); }}
+            className="w-full mt-1 pt-2 border-t border-slate-100 dark:border-slate-800 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 py-2"
+          >
+            Manage Locations
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocationSwitcher;
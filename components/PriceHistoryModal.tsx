@@ -0,0 +1,117 @@
+import React, { useMemo } from 'react';
+import { getItemHistory, getObservationWeight, getPriceStats, PriceObservation } from '../services/priceHistory';
+import { CurrencyContext, convertAmount, formatMoney } from '../services/currency';
+
+interface Props {
+  itemName: string;
+  emoji: string;
+  currencyContext: CurrencyContext;
+  onClose: () => void;
+}
+
+const LINE_COLOURS = ['#4f46e5', '#10b981', '#f59e0b', '#ef4444', '#0ea5e9', '#a855f7'];
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 96;
+const CHART_PADDING = 6;
+
+const PriceHistoryModal: React.FC<Props> = ({ itemName, emoji, currencyContext, onClose }) => {
+  // Observations keep the currency they were quoted in; chart them all in the user's.
+  const history = useMemo(() => getItemHistory(itemName).map(o => ({
+    ...o,
+    price: convertAmount(o.price, o.currency, currencyContext),
+    currency: currencyContext.base
+  })), [itemName, currencyContext]);
+
+  const byShop = useMemo(() => {
+    const groups: Record<string, PriceObservation[]> = {};
+    history.forEach(o => { (groups[o.shop] = groups[o.shop] || []).push(o); });
+    return Object.entries(groups).sort((a, b) => b[1].length - a[1].length);
+  }, [history]);
+
+  // Prices paid at the till weigh more in the averages than searched ones.
+  const overall = getPriceStats(history.map(o => o.price), history.map(getObservationWeight));
+
+  // Shared axes so the shop lines are comparable with each other.
+  const minTime = history[0]?.timestamp ?? 0;
+  const maxTime = history[history.length - 1]?.timestamp ?? 0;
+  const toX = (t: number) => maxTime === minTime
+    ? CHART_WIDTH / 2
+    : CHART_PADDING + ((t - minTime) / (maxTime - minTime)) * (CHART_WIDTH - CHART_PADDING * 2);
+  const toY = (p: number) => !overall || overall.max === overall.min
+    ? CHART_HEIGHT / 2
+    : CHART_HEIGHT - CHART_PADDING - ((p - overall.min) / (overall.max - overall.min)) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md z-[70] flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 w-full max-w-md rounded-3xl p-8 border border-slate-200 dark:border-slate-800 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <div className="overflow-hidden">
+            <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest">Price History</p>
+            <h2 className="text-2xl font-black truncate">{emoji} {itemName}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><svg className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M6 18L18 6M6 6l12 12" strokeWidth={3} /></svg></button>
+        </div>
+
+        {!overall ? (
+          <div className="flex flex-col items-center justify-center py-12 opacity-40">
+            <div className="text-5xl mb-4">📈</div>
+            <p className="text-sm font-black uppercase tracking-widest">No history yet</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-3 gap-3">
+              {([['Min', overall.min], ['Avg', overall.avg], ['Max', overall.max]] as const).map(([label, value]) => (
+                <div key={label} className="bg-slate-50 dark:bg-slate-800 rounded-2xl p-3 text-center border border-slate-100 dark:border-slate-700">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</p>
+                  <p className="font-mono font-black text-slate-800 dark:text-slate-100">{formatMoney(value, currencyContext.base)}</p>
+                </div>
+              ))}
+            </div>
+
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-24 bg-slate-50 dark:bg-slate-800/50 rounded-2xl">
+              {byShop.map(([shop, observations], idx) => {
+                const colour = LINE_COLOURS[idx % LINE_COLOURS.length];
+                const points = observations.map(o => `${toX(o.timestamp)},${toY(o.price)}`).join(' ');
+                return (
+                  <g key={shop}>
+                    {observations.length > 1 && <polyline points={points} fill="none" stroke={colour} strokeWidth={2} strokeLinejoin="round" strokeLinecap="round" />}
+                    {observations.map((o, i) => o.isConfirmed 
+                      ? <circle key={i} cx={toX(o.timestamp)} cy={toY(o.price)} r={4} fill="white" stroke={colour} strokeWidth={2} />
+                      : <circle key={i} cx={toX(o.timestamp)} cy={toY(o.price)} r={2.5} fill={colour} />)}
+                  </g>
+                );
+              })}
+            </svg>
+
+            {history.some(o => o.isConfirmed) && <p className="text-[10px] text-slate-400 font-bold -mt-4">○ Hollow points are prices you confirmed after a trip.</p>}
+
+            <div className="space-y-2">
+              {byShop.map(([shop, observations], idx) => {
+                const stats = getPriceStats(observations.map(o => o.price), observations.map(getObservationWeight))!;
+                const latest = observations[observations.length - 1];
+                const confirmedCount = observations.filter(o => o.isConfirmed).length;
+                return (
+                  <div key={shop} className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-800">
+                    <div className="flex items-center gap-2 overflow-hidden">
+                      <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: LINE_COLOURS[idx % LINE_COLOURS.length] }}></span>
+                      <div className="overflow-hidden">
+                        <p className="font-bold text-sm text-slate-800 dark:text-slate-100 truncate">{shop}</p>
+                        <p className="text-[10px] text-slate-400 font-bold uppercase">{stats.count} prices{confirmedCount > 0 && ` · ${confirmedCount} paid`} · {new Date(latest.timestamp).toLocaleDateString()}</p>
+                      </div>
+                    </div>
+                    <div className="text-right shrink-0 font-mono">
+                      <p className="text-sm font-black text-slate-800 dark:text-slate-100">{formatMoney(latest.price, currencyContext.base)}</p>
+                      <p className="text-[10px] text-slate-400">{formatMoney(stats.min, currencyContext.base)}–{formatMoney(stats.max, currencyContext.base)}</p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PriceHistoryModal;
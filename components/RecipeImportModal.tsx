@@ -0,0 +1,107 @@
+import React, { useMemo, useState } from 'react';
+import { PriceProvider } from '../services/priceProvider';
+import { Recipe, ShoppingIngredient, scaleAndMergeRecipes, describeIngredient } from '../services/recipes';
+
+interface Props {
+  provider: PriceProvider;
+  onAdd: (ingredients: ShoppingIngredient[]) => void;
+  onClose: () => void;
+}
+
+const RecipeImportModal: React.FC<Props> = ({ provider, onAdd, onClose }) => {
+  const [text, setText] = useState('');
+  const [servings, setServings] = useState(4);
+  const [recipes, setRecipes] = useState<Recipe[] | null>(null);
+  const [unticked, setUnticked] = useState<Set<string>>(new Set());
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Rescaled locally, so changing servings during review doesn't cost another call.
+  const ingredients = useMemo(() => recipes ? scaleAndMergeRecipes(recipes, servings) : [], [recipes, servings]);
+  const chosen = ingredients.filter(i => !unticked.has(i.key));
+
+  const handleExtract = async () => {
+    if (!text.trim()) return;
+    setIsExtracting(true);
+    setError(null);
+    try {
+      const extracted = await provider.extractRecipes(text);
+      setRecipes(extracted);
+      setUnticked(new Set());
+      if (extracted.every(r => r.ingredients.length === 0)) setError("No ingredients found in that text.");
+    } catch (e: any) {
+      console.error("Recipe extraction failed", e);
+      setError(e?.message || "Couldn't read that recipe.");
+    }
+    setIsExtracting(false);
+  };
+
+  const toggle = (key: string) => {
+    const next = new Set(unticked);
+    next.has(key) ? next.delete(key) : next.add(key);
+    setUnticked(next);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md z-[70] flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 w-full max-w-md rounded-3xl p-8 border border-slate-200 dark:border-slate-800 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest">{recipes ? 'Review Ingredients' : 'From Recipes'}</p>
+            <h2 className="text-2xl font-black">🍳 Import Recipe</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><svg className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M6 18L18 6M6 6l12 12" strokeWidth={3} /></svg></button>
+        </div>
+
+        <div className="flex items-center justify-between mb-4">
+          <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest">Servings</label>
+          <div className="flex items-center gap-2">
+            <button onClick={() => setServings(Math.max(1, servings - 1))} className="w-8 h-8 rounded-full bg-slate-100 dark:bg-slate-800 font-black text-slate-500">−</button>
+            <span className="w-8 text-center font-black">{servings}</span>
+            <button onClick={() => setServings(servings + 1)} className="w-8 h-8 rounded-full bg-slate-100 dark:bg-slate-800 font-black text-slate-500">+</button>
+          </div>
+        </div>
+
+        {!recipes ? (
+          <>
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={8}
+              placeholder={"Paste a recipe, or a list of dishes for the week:\nMon: spaghetti bolognese\nTue: chicken curry\n..."}
+              className="w-full bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-2xl py-4 px-5 text-sm dark:text-white"
+            />
+            {error && <p className="text-xs font-bold text-red-500 mt-3">{error}</p>}
+            <button onClick={handleExtract} disabled={isExtracting || !text.trim()} className="w-full mt-4 py-4 bg-indigo-600 text-white rounded-2xl text-sm font-black hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2">
+              {isExtracting ? <><div className="w-4 h-4 border-2 border-white/40 border-t-white rounded-full animate-spin"></div>Reading...</> : 'Extract Ingredients'}
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">{recipes.map(r => r.title).join(', ')}</p>
+            {error && <p className="text-xs font-bold text-red-500 mb-3">{error}</p>}
+            <div className="space-y-1 mb-4">
+              {ingredients.map(ingredient => (
+                <label key={ingredient.key} className="flex items-center gap-3 p-2 rounded-xl hover:bg-slate-50 dark:hover:bg-slate-800 cursor-pointer">
+                  <input type="checkbox" checked={!unticked.has(ingredient.key)} onChange={() => toggle(ingredient.key)} className="accent-indigo-600 w-4 h-4" />
+                  <span className="flex-1 overflow-hidden">
+                    <span className="block text-sm font-bold text-slate-800 dark:text-slate-100 truncate">{describeIngredient(ingredient)}</span>
+                    {ingredient.recipes.length > 1 && <span className="block text-[10px] text-slate-400 font-bold uppercase truncate">{ingredient.recipes.join(' · ')}</span>}
+                  </span>
+                </label>
+              ))}
+            </div>
+            <div className="flex gap-3">
+              <button onClick={() => { setRecipes(null); setError(null); }} className="px-5 bg-slate-100 dark:bg-slate-800 text-slate-500 rounded-2xl text-xs font-bold">Back</button>
+              <button onClick={() => onAdd(chosen)} disabled={chosen.length === 0} className="flex-1 py-4 bg-indigo-600 text-white rounded-2xl text-sm font-black hover:bg-indigo-700 transition-colors disabled:opacity-50">
+                Add {chosen.length} Items
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecipeImportModal;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { SharedList } from '../services/shareLink';
+
+interface Props {
+  shared: SharedList;
+  currentListName: string;
+  newItemCount: number;
+  onMerge: () => void;
+  onReplace: () => void;
+  onCancel: () => void;
+}
+
+const SharedListModal: React.FC<Props> = ({ shared, currentListName, newItemCount, onMerge, onReplace, onCancel }) => {
+  const duplicateCount = shared.items.length - newItemCount;
+  const pricedCount = shared.items.filter(i => i.status === 'ready').length;
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md z-[90] flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 w-full max-w-md rounded-3xl p-8 border border-slate-200 dark:border-slate-800 max-h-[90vh] overflow-y-auto">
+        <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest">Shared With You</p>
+        <h2 className="text-2xl font-black truncate mb-4">{shared.name}</h2>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          {shared.items.map((item, idx) => (
+            <span key={idx} className="text-xs font-bold px-2 py-1 rounded-full bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 text-slate-700 dark:text-slate-200">{item.emoji} {item.name}</span>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500 dark:text-slate-400 mb-6 leading-relaxed">
+          {shared.items.length} items{pricedCount > 0 && `, ${pricedCount} with prices`}.
+          {duplicateCount > 0 && ` ${duplicateCount} already on "${currentListName}" and will be skipped when merging.`}
+        </p>
+
+        <div className="space-y-3">
+          <button onClick={onMerge} disabled={newItemCount === 0} className="w-full py-4 bg-indigo-600 text-white rounded-2xl text-sm font-black hover:bg-indigo-700 transition-colors disabled:opacity-40">
+            Merge {newItemCount} into "{currentListName}"
+          </button>
+          <button onClick={onReplace} className="w-full py-4 bg-slate-900 dark:bg-slate-700 text-white rounded-2xl text-sm font-black hover:bg-red-600 transition-colors">
+            Replace "{currentListName}"
+          </button>
+          <button onClick={onCancel} className="w-full py-3 text-slate-400 text-xs font-bold uppercase tracking-widest hover:text-slate-600">Ignore</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharedListModal;
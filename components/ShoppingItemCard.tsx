@@ -1,18 +1,51 @@
-import React, { useState } from 'react';
-import { ShoppingItem } from '../types';
+import React, { useEffect, useState } from 'react';
+import { ShoppingItem, QuantityUnit, DietaryConflict } from '../types';
+import { QUANTITY_UNITS, getQuantity, getItemCost, formatPackSize, formatUnitPrice } from '../services/units';
+import { CurrencyContext, convertAmount, formatMoney } from '../services/currency';
+import { CONFLICT_LABELS } from '../services/dietary';
+import { QueuePosition } from '../services/requestScheduler';
 
 interface Props {
   item: ShoppingItem;
   selectionMode: boolean;
-  currencySymbol: string;
+  currencyContext: CurrencyContext;
+  dietaryConflicts?: DietaryConflict[]; // Already filtered to the current profile
+  queuePosition?: QueuePosition;
   onDelete: (id: string) => void;
   onSelect: (id: string) => void;
+  onQuantityChange: (id: string, quantity: number, unit: QuantityUnit) => void;
   onOptionPick: (id: string, name: string) => void;
   onRetry: (id: string) => void;
+  onRefresh: (id: string) => void;
+  onShowHistory: () => void;
 }
 
-const ShoppingItemCard: React.FC<Props> = ({ item, selectionMode, currencySymbol, onDelete, onSelect, onOptionPick, onRetry }) => {
+const formatAge = (timestamp: number) => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+};
+
+const formatWait = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `~${seconds}s`;
+  return `~${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const ShoppingItemCard: React.FC<Props> = ({ item, selectionMode, currencyContext, dietaryConflicts = [], queuePosition, onDelete, onSelect, onQuantityChange, onOptionPick, onRetry, onRefresh, onShowHistory }) => {
   const [customValue, setCustomValue] = useState('');
+  const [now, setNow] = useState(Date.now);
+
+  // Ticks the countdown while the item is waiting in the request queue.
+  useEffect(() => {
+    if (!queuePosition) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [queuePosition]);
 
   const handleCustomSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -22,6 +55,32 @@ const ShoppingItemCard: React.FC<Props> = ({ item, selectionMode, currencySymbol
   };
 
   const isError = item.status === 'error';
+  const quantity = getQuantity(item);
+  const unit = item.unit || 'each';
+  // Loose goods are bought by the 100g/100ml, everything else one at a time.
+  const step = unit === 'g' || unit === 'ml' ? 100 : unit === 'kg' || unit === 'l' ? 0.5 : 1;
+
+  // The line total is shown in the user's currency; shelf and unit prices as quoted.
+  const priceCurrency = item.currency || currencyContext.base;
+  const lineCost = item.price !== undefined ? convertAmount(getItemCost({
+    shop: item.cheapestShop || '',
+    price: item.price,
+    currency: priceCurrency,
+    unitPrice: item.unitPrice,
+    unitPriceBasis: item.unitPriceBasis
+  }, item), priceCurrency, currencyContext) : 0;
+  const packLabel = formatPackSize(item.packSize, item.packUnit);
+  const unitPriceLabel = formatUnitPrice(priceCurrency, item.unitPrice, item.unitPriceBasis);
+
+  const handleStep = (direction: 1 | -1) => {
+    const next = Math.round((quantity + direction * step) * 100) / 100;
+    if (next > 0) onQuantityChange(item.id, next, unit);
+  };
+
+  const handleQuantityInput = (value: string) => {
+    const parsed = parseFloat(value);
+    if (parsed > 0) onQuantityChange(item.id, parsed, unit);
+  };
 
   return (
     <div className={`bg-white dark:bg-slate-800 p-4 rounded-xl border transition-all duration-200 shadow-sm flex flex-col gap-3 group 
@@ -46,10 +105,16 @@ const ShoppingItemCard: React.FC<Props> = ({ item, selectionMode, currencySymbol
               {item.name}
             </span>
             <div className="flex items-center gap-2 mt-0.5">
-              {item.status === 'searching' && (
+              {(item.status === 'searching' || (item.status === 'correcting' && queuePosition)) && (
                 <div className="flex items-center gap-2">
                   <div className="w-2 h-2 bg-indigo-500 rounded-full animate-ping"></div>
-                  <span className="text-[10px] font-bold text-indigo-500 uppercase tracking-tighter">Waiting for Search Slot...</span>
+                  <span className="text-[10px] font-bold text-indigo-500 uppercase tracking-tighter">
+                    {!queuePosition
+                      ? (item.status === 'searching' ? 'Searching prices...' : 'Checking item...')
+                      : queuePosition.readyAt > now
+                        ? `#${queuePosition.position} in ${queuePosition.requestClass} queue · ${formatWait(queuePosition.readyAt - now)}`
+                        : 'Sending...'}
+                  </span>
                 </div>
               )}
               {isError && (
@@ -58,15 +123,64 @@ const ShoppingItemCard: React.FC<Props> = ({ item, selectionMode, currencySymbol
                 </span>
               )}
               {item.status === 'ready' && item.cheapestShop && (
-                <span className="text-xs text-slate-500 bg-slate-100 dark:bg-slate-900 px-2 py-0.5 rounded-full border border-transparent dark:border-slate-700">
-                  <span className="font-semibold text-indigo-600">{item.cheapestShop}</span>: {currencySymbol}{item.price?.toFixed(2)}
+                <button 
+                  onClick={onShowHistory}
+                  title="Price history"
+                  className="text-xs text-slate-500 bg-slate-100 dark:bg-slate-900 px-2 py-0.5 rounded-full border border-transparent dark:border-slate-700 hover:border-indigo-300 transition-colors shrink-0"
+                >
+                  <span className="font-semibold text-indigo-600">{item.cheapestShop}</span>: {formatMoney(lineCost, currencyContext.base)} 📈
+                </button>
+              )}
+              {item.status === 'ready' && item.cheapestShop && (
+                <span className="text-[10px] text-slate-400 font-mono truncate">
+                  {formatMoney(item.price || 0, priceCurrency)}{packLabel && ` · ${packLabel}`}{unitPriceLabel && ` · ${unitPriceLabel}`}
+                  {item.pricedAt && ` · ${formatAge(item.pricedAt)}`}
                 </span>
               )}
             </div>
+            {dietaryConflicts.length > 0 && item.status !== 'correcting' && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {dietaryConflicts.map(conflict => (
+                  <span key={conflict} title="May not fit your dietary profile" className="text-[9px] font-black uppercase tracking-tighter text-rose-600 dark:text-rose-400 bg-rose-50 dark:bg-rose-900/30 px-1.5 py-0.5 rounded">
+                    ⚠ {CONFLICT_LABELS[conflict]}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
         </div>
         
         <div className="flex items-center gap-2">
+          <div className="flex items-center bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+            <button onClick={() => handleStep(-1)} className="px-2 py-1 text-slate-400 hover:text-indigo-600 font-bold text-sm">−</button>
+            <input
+              type="number"
+              min="0"
+              step={step}
+              value={quantity}
+              onChange={(e) => handleQuantityInput(e.target.value)}
+              className="w-10 bg-transparent text-center text-xs font-bold text-slate-700 dark:text-slate-200 focus:outline-none [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none"
+            />
+            <select
+              value={unit}
+              onChange={(e) => onQuantityChange(item.id, quantity, e.target.value as QuantityUnit)}
+              className="bg-transparent text-[10px] font-bold uppercase text-slate-400 focus:outline-none"
+            >
+              {QUANTITY_UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+            </select>
+            <button onClick={() => handleStep(1)} className="px-2 py-1 text-slate-400 hover:text-indigo-600 font-bold text-sm">+</button>
+          </div>
+          {item.status === 'ready' && (
+            <button 
+              onClick={() => onRefresh(item.id)}
+              title="Force refresh price"
+              className="text-slate-300 hover:text-indigo-600 p-1 rounded-lg transition-colors"
+            >
+              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+            </button>
+          )}
           {isError && (
             <button 
               onClick={() => onRetry(item.id)}
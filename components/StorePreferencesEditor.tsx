@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { StorePreferences } from '../types';
+
+interface Props {
+  shops: string[];
+  preferences: StorePreferences;
+  onChange: (preferences: StorePreferences) => void;
+}
+
+// Per-shop rules for the settings panel. Shops appear once they've turned up in a
+// search, or can be typed in ahead of time (e.g. to exclude one before it ever shows).
+const StorePreferencesEditor: React.FC<Props> = ({ shops, preferences, onChange }) => {
+  const [newShop, setNewShop] = useState('');
+  const [extraShops, setExtraShops] = useState<string[]>([]);
+  const { excluded, favourites, favouriteBonus, loyaltyDiscounts } = preferences;
+  const allShops = [...new Set([...shops, ...extraShops])].sort();
+
+  const toggle = (list: string[], shop: string) => list.includes(shop) ? list.filter(s => s !== shop) : [...list, shop];
+
+  const setLoyalty = (shop: string, value: string) => {
+    const percent = Math.min(100, Math.max(0, parseFloat(value) || 0));
+    const { [shop]: _, ...rest } = loyaltyDiscounts;
+    onChange({ ...preferences, loyaltyDiscounts: percent > 0 ? { ...rest, [shop]: percent } : rest });
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newShop.trim();
+    if (name && !allShops.some(s => s.toLowerCase() === name.toLowerCase())) setExtraShops([...extraShops, name]);
+    setNewShop('');
+  };
+
+  return (
+    <div>
+      <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest block mb-2">Stores</label>
+      <div className="space-y-2 mb-3">
+        {allShops.map(shop => {
+          const isExcluded = excluded.includes(shop);
+          const isFavourite = favourites.includes(shop);
+          return (
+            <div key={shop} className={`flex items-center gap-2 p-2 pl-4 rounded-2xl border-2 ${isExcluded ? 'border-slate-100 dark:border-slate-800 opacity-50' : 'border-slate-100 dark:border-slate-700'}`}>
+              <span className={`flex-1 text-sm font-bold truncate ${isExcluded ? 'line-through text-slate-400' : 'text-slate-700 dark:text-slate-200'}`}>{shop}</span>
+              <button onClick={() => onChange({ ...preferences, favourites: toggle(favourites, shop), excluded: excluded.filter(s => s !== shop) })} title="Favourite" className={`p-1.5 text-lg ${isFavourite ? '' : 'grayscale opacity-30 hover:opacity-60'}`}>⭐</button>
+              <button onClick={() => onChange({ ...preferences, excluded: toggle(excluded, shop), favourites: favourites.filter(s => s !== shop) })} title="Never shop here" className={`p-1.5 text-lg ${isExcluded ? '' : 'grayscale opacity-30 hover:opacity-60'}`}>🚫</button>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                placeholder="0"
+                title="Loyalty discount %"
+                disabled={isExcluded}
+                value={loyaltyDiscounts[shop] || ''}
+                onChange={(e) => setLoyalty(shop, e.target.value)}
+                className="w-14 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-xl py-1.5 px-2 text-xs font-bold text-right dark:text-white"
+              />
+              <span className="text-[10px] font-bold text-slate-400 pr-1">%</span>
+            </div>
+          );
+        })}
+      </div>
+      <form onSubmit={handleAdd} className="flex gap-2 mb-3">
+        <input type="text" value={newShop} onChange={(e) => setNewShop(e.target.value)} placeholder="Add a shop..." className="flex-1 bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-2xl py-3 px-4 text-sm dark:text-white" />
+        <button type="submit" className="px-4 bg-slate-100 dark:bg-slate-800 text-slate-500 rounded-2xl text-xs font-bold hover:text-indigo-600 transition-colors">Add</button>
+      </form>
+      <div className="flex items-center gap-3">
+        <span className="text-xs font-bold text-slate-400">⭐ bonus</span>
+        <input
+          type="range"
+          min="0"
+          max="20"
+          step="1"
+          value={favouriteBonus}
+          onChange={(e) => onChange({ ...preferences, favouriteBonus: parseInt(e.target.value) })}
+          className="flex-1 h-2 bg-slate-100 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+        />
+        <span className="text-xs font-black text-indigo-600 w-10 text-right">{favouriteBonus}%</span>
+      </div>
+      <p className="text-[10px] text-slate-400 mt-2 leading-relaxed">⭐ Favourites rank first when within the bonus of the cheapest. 🚫 Excluded shops are never priced. The % box is your loyalty card discount, taken off strategy totals.</p>
+    </div>
+  );
+};
+
+export default StorePreferencesEditor;
@@ -1,35 +1,36 @@
-import React, { useEffect, useState } from 'react';
-import { ShoppingItem, LocationState, UnitSystem } from '../types';
-import { getStoreBranchDetails } from '../services/geminiService';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ShoppingItem, LocationState, UnitSystem, RankedShop, TripStop, StorePreferences, PriceOption } from '../types';
+import { BranchDetails, PriceProvider } from '../services/priceProvider';
+import { getQuantity, formatQuantity, getItemCost, rankPriceOptions, formatUnitPrice } from '../services/units';
+import { MAX_SPLIT_CANDIDATES, optimiseTrips, TripCostSettings } from '../services/tripOptimizer';
+import { isUnusuallyHigh } from '../services/priceHistory';
+import { CurrencyContext, convertAmount, formatMoney } from '../services/currency';
+import { SubstitutionSuggestion } from '../services/budget';
+import { distanceBetween, formatDistance } from '../services/geo';
+import { buildDirectionsUrl, planRoute } from '../services/route';
+import BranchMap from './BranchMap';
+import { applyLoyalty, getFavouriteBonus, getLoyaltyDiscount, getRankingScore, isFavourite, withoutExcluded } from '../services/storePreferences';
 
 interface Props {
   items: ShoppingItem[];
   location: LocationState;
-  currencySymbol: string;
+  currencyContext: CurrencyContext;
   distanceUnit: UnitSystem;
   maxDistance: number;
+  tripCosts: TripCostSettings;
+  storePreferences: StorePreferences;
+  budget: number;
+  budgetSuggestions: SubstitutionSuggestion[];
+  provider: PriceProvider;
   cachedData: RankedShop[] | null;
   onCalculationDone: (ranked: RankedShop[]) => void;
+  onExport: (strategy: RankedShop) => void;
+  onLogTrip: (strategy: RankedShop) => void;
+  onStartTrip: (strategy: RankedShop) => void;
   onClose: () => void;
 }
 
-export interface RankedShop {
-  shopName: string;
-  branchName: string;
-  distance: string;
-  numericDistance: number;
-  totalPrice: number;
-  weight: number;
-  itemsAtBest: number;
-  isClosest: boolean;
-  isCheapest: boolean;
-  isWithinPreference: boolean;
-  receipt: Array<{ itemName: string, price: number, isCheapestHere: boolean }>;
-  savingsDiff: Array<{ itemName: string, cheapestPrice: number, cheapestShop: string, bestShopPrice: number, difference: number }>;
-  potentialSavings: number;
-}
-
-const SummaryModal: React.FC<Props> = ({ items, location, currencySymbol, distanceUnit, maxDistance, cachedData, onCalculationDone, onClose }) => {
+const SummaryModal: React.FC<Props> = ({ items, location, currencyContext, distanceUnit, maxDistance, tripCosts, storePreferences, budget, budgetSuggestions, provider, cachedData, onCalculationDone, onExport, onLogTrip, onStartTrip, onClose }) => {
   const [loading, setLoading] = useState(true);
   const [progress, setProgress] = useState(0);
   const [rankedShops, setRankedShops] = useState<RankedShop[]>([]);
@@ -46,16 +47,15 @@ const SummaryModal: React.FC<Props> = ({ items, location, currencySymbol, distan
       setLoading(false);
       setProgress(100);
     } else {
-      const getNumericDistance = (distStr: string) => {
-        const match = distStr.match(/(\d+(\.\d+)?)/);
-        return match ? parseFloat(match[1]) : Infinity;
-      };
-
       const calculateSummary = async () => {
         setLoading(true);
         setProgress(10);
         
-        const readyItems = items.filter(i => i.status === 'ready');
+        // Excluded shops are dropped as prices come in; this catches anything priced
+        // before the shop was excluded.
+        const readyItems = items
+          .filter(i => i.status === 'ready')
+          .map(i => ({ ...i, topOptions: withoutExcluded(i.topOptions || [], storePreferences) }));
         if (readyItems.length === 0) {
           setLoading(false);
           return;
@@ -76,83 +76,183 @@ const SummaryModal: React.FC<Props> = ({ items, location, currencySymbol, distan
           }, 0);
         });
 
-        const sortedShops = Object.keys(shopCoverage)
+        const candidateShops = Object.keys(shopCoverage)
           .sort((a, b) => shopCoverage[b] - shopCoverage[a])
-          .slice(0, 3);
-
-        const calculatedRanked: RankedShop[] = [];
-
-        for (let sIdx = 0; sIdx < sortedShops.length; sIdx++) {
-          const shopName = sortedShops[sIdx];
-          setProgress(Math.floor(20 + (sIdx * (60 / sortedShops.length))));
-
-          // Fetch distance (one call per shop is usually fine)
-          const branchInfo = await getStoreBranchDetails(shopName, location, distanceUnit);
-          const numericDist = getNumericDistance(branchInfo.distance);
-
-          let shopTotal = 0;
-          let itemsAtBestCount = 0;
-          let shopPotentialSavings = 0;
-          const shopReceipt: RankedShop['receipt'] = [];
-          const shopDiffs: RankedShop['savingsDiff'] = [];
+          .slice(0, MAX_SPLIT_CANDIDATES);
+        const sortedShops = candidateShops.slice(0, 3);
+
+        // Locate each branch (one call per shop is usually fine) and measure from here.
+        // A failed lookup leaves that shop unlocated rather than stalling the summary.
+        const branches: Record<string, { branchName: string; distance: string; numericDistance: number; coords?: LocationState; placeId?: string }> = {};
+        for (let sIdx = 0; sIdx < candidateShops.length; sIdx++) {
+          const shopName = candidateShops[sIdx];
+          setProgress(Math.floor(20 + (sIdx * (60 / candidateShops.length))));
+          const { branchName, coords, placeId } = await provider.getStoreBranchDetails(shopName, location).catch((e): BranchDetails => {
+            console.error(`Branch lookup failed for ${shopName}:`, e);
+            return { branchName: shopName };
+          });
+          const numericDistance = coords ? distanceBetween(location, coords, distanceUnit) : Infinity;
+          branches[shopName] = {
+            branchName,
+            coords,
+            placeId,
+            numericDistance,
+            distance: coords ? formatDistance(numericDistance, distanceUnit) : 'Distance unknown'
+          };
+        }
 
-          readyItems.forEach(item => {
-            // Find price at this shop if we have it, else use average/estimated
-            const absoluteCheapest = item.topOptions?.[0] || { price: 0, shop: "N/A" };
+        // Compare on normalised unit prices so pack sizes don't skew the ranking, and
+        // convert everything into the user's currency before anything is summed.
+        // Loyalty discounts come off at the till, so they're applied per line before any
+        // comparison; the shelf price on the receipt stays as quoted.
+        const toBase = (amount: number, currency?: string) => convertAmount(amount, currency, currencyContext);
+        const shelfCost = (option: PriceOption, item: ShoppingItem) => toBase(getItemCost(option, item), option.currency);
+        const tillCost = (option: PriceOption, item: ShoppingItem) => applyLoyalty(shelfCost(option, item), option.shop, storePreferences);
+        const cheapestOptions = readyItems.map(item => rankPriceOptions(item.topOptions, item, currencyContext)
+          .reduce<PriceOption | undefined>((best, o) => !best || tillCost(o, item) < tillCost(best, item) ? o : best, undefined));
+        const lineCostAt = (itemIndex: number, shopName: string) => {
+          const item = readyItems[itemIndex];
+          const option = item.topOptions.find(o => o.shop === shopName);
+          return option ? tillCost(option, item) : null;
+        };
+        // If we don't have price for this item at a shop, use the average of other shops
+        const estimatedCost = (itemIndex: number) => {
+          const item = readyItems[itemIndex];
+          const options = item.topOptions || [];
+          return options.length > 0 
+            ? options.reduce((a, b) => a + toBase(getItemCost(b, item), b.currency), 0) / options.length 
+            : toBase((item.price || 0) * getQuantity(item), item.currency);
+        };
+
+        // Prices every item at the shop assigned to it and lists what's cheaper elsewhere.
+        const buildBasket = (assignment: string[]) => {
+          let total = 0;
+          let itemsAtBest = 0;
+          let potentialSavings = 0;
+          let loyaltySavings = 0;
+          const receipt: RankedShop['receipt'] = [];
+          const savingsDiff: RankedShop['savingsDiff'] = [];
+
+          readyItems.forEach((item, idx) => {
+            const shopName = assignment[idx];
+            const absoluteCheapest = cheapestOptions[idx];
             const shopOption = item.topOptions?.find(o => o.shop === shopName);
-            
-            // If we don't have price for this item at this shop, use the average of other shops
-            const priceAtThisShop = shopOption ? shopOption.price : 
-              (item.topOptions && item.topOptions.length > 0 ? 
-                item.topOptions.reduce((a,b) => a + b.price, 0) / item.topOptions.length : (item.price || 0));
+            const quantity = getQuantity(item);
+            const lineTotal = lineCostAt(idx, shopName) ?? estimatedCost(idx);
+            if (shopOption) loyaltySavings += shelfCost(shopOption, item) - lineTotal;
 
-            shopTotal += priceAtThisShop;
-            const isCheapestHere = shopName === absoluteCheapest.shop;
-            if (isCheapestHere) itemsAtBestCount++;
+            total += lineTotal;
+            const isCheapestHere = !!absoluteCheapest && shopName === absoluteCheapest.shop;
+            if (isCheapestHere) itemsAtBest++;
 
-            shopReceipt.push({
+            receipt.push({
               itemName: item.name,
-              price: priceAtThisShop,
+              shopName,
+              price: shopOption ? toBase(shopOption.price, shopOption.currency) : lineTotal / quantity,
+              quantity,
+              unit: item.unit || 'each',
+              lineTotal,
+              unitPrice: shopOption?.unitPrice !== undefined ? toBase(shopOption.unitPrice, shopOption.currency) : undefined,
+              unitPriceBasis: shopOption?.unitPriceBasis,
               isCheapestHere
             });
 
-            if (!isCheapestHere) {
-              const d = priceAtThisShop - absoluteCheapest.price;
+            if (!isCheapestHere && absoluteCheapest) {
+              const cheapestCost = tillCost(absoluteCheapest, item);
+              const d = lineTotal - cheapestCost;
               if (d > 0.01) {
-                shopPotentialSavings += d;
-                shopDiffs.push({
+                potentialSavings += d;
+                savingsDiff.push({
                   itemName: item.name,
-                  cheapestPrice: absoluteCheapest.price,
+                  quantity,
+                  cheapestPrice: cheapestCost,
                   cheapestShop: absoluteCheapest.shop,
-                  bestShopPrice: priceAtThisShop,
+                  cheapestUnitPrice: absoluteCheapest.unitPrice !== undefined ? toBase(absoluteCheapest.unitPrice, absoluteCheapest.currency) : undefined,
+                  unitPriceBasis: absoluteCheapest.unitPriceBasis,
+                  bestShopPrice: lineTotal,
                   difference: d
                 });
               }
             }
           });
 
-          calculatedRanked.push({
+          return { total, itemsAtBest, potentialSavings, loyaltySavings, receipt, savingsDiff };
+        };
+
+        const calculatedRanked: RankedShop[] = sortedShops.map(shopName => {
+          const branch = branches[shopName];
+          const basket = buildBasket(readyItems.map(() => shopName));
+          return {
             shopName,
-            branchName: branchInfo.branchName,
-            distance: branchInfo.distance,
-            numericDistance: numericDist,
-            totalPrice: shopTotal,
+            branchName: branch.branchName,
+            distance: branch.distance,
+            numericDistance: branch.numericDistance,
+            coords: branch.coords,
+            placeId: branch.placeId,
+            totalPrice: basket.total,
             weight: shopCoverage[shopName],
-            itemsAtBest: itemsAtBestCount,
+            itemsAtBest: basket.itemsAtBest,
+            isClosest: false,
+            isCheapest: false,
+            isWithinPreference: branch.numericDistance <= maxDistance,
+            receipt: basket.receipt,
+            savingsDiff: basket.savingsDiff,
+            potentialSavings: basket.potentialSavings,
+            loyaltySavings: basket.loyaltySavings
+          };
+        });
+
+        // Split trips: the best 2- and 3-store plans once extra stops are paid for.
+        const plans = optimiseTrips(
+          candidateShops.map(shopName => ({ shopName, numericDistance: branches[shopName].numericDistance })),
+          readyItems.length,
+          lineCostAt,
+          estimatedCost,
+          tripCosts
+        );
+        plans.filter(plan => plan.shops.length > 1).forEach(plan => {
+          const basket = buildBasket(plan.assignment);
+          const unordered: TripStop[] = plan.shops.map(shopName => ({
+            shopName,
+            branchName: branches[shopName].branchName,
+            distance: branches[shopName].distance,
+            numericDistance: branches[shopName].numericDistance,
+            coords: branches[shopName].coords,
+            placeId: branches[shopName].placeId,
+            itemCount: plan.assignment.filter(s => s === shopName).length,
+            subtotal: basket.receipt.filter(r => r.shopName === shopName).reduce((acc, r) => acc + r.lineTotal, 0)
+          }));
+          // Stops are kept in driving order, which is also the order in-store mode walks them.
+          const route = planRoute(location, unordered, distanceUnit);
+          const stops = route.stops;
+          const furthest = Math.max(...stops.map(s => s.numericDistance));
+
+          calculatedRanked.push({
+            shopName: stops.map(s => s.shopName).join(' + '),
+            branchName: stops.map(s => s.branchName).join(' + '),
+            distance: route.isComplete ? `${stops.length} stops · ${formatDistance(route.totalDistance, distanceUnit)}` : `${stops.length} stops`,
+            numericDistance: furthest,
+            totalPrice: basket.total + plan.travelCost,
+            weight: plan.shops.reduce((acc, shop) => acc + shopCoverage[shop], 0),
+            itemsAtBest: basket.itemsAtBest,
             isClosest: false,
             isCheapest: false,
-            isWithinPreference: numericDist <= maxDistance,
-            receipt: shopReceipt,
-            savingsDiff: shopDiffs,
-            potentialSavings: shopPotentialSavings
+            isWithinPreference: furthest <= maxDistance,
+            receipt: basket.receipt,
+            savingsDiff: basket.savingsDiff,
+            potentialSavings: basket.potentialSavings,
+            loyaltySavings: basket.loyaltySavings,
+            stops,
+            travelCost: plan.travelCost,
+            routeDistance: route.isComplete ? route.totalDistance : undefined
           });
-        }
+        });
 
-        // Sorting by a mix of price and distance preference
+        // Sorting by a mix of price and distance preference, with favourites given their bonus
         calculatedRanked.sort((a, b) => {
           if (a.isWithinPreference && !b.isWithinPreference) return -1;
           if (!a.isWithinPreference && b.isWithinPreference) return 1;
-          return a.totalPrice - b.totalPrice;
+          return getRankingScore(a, storePreferences) - getRankingScore(b, storePreferences);
         });
 
         if (calculatedRanked.length > 0) {
@@ -186,12 +286,29 @@ const SummaryModal: React.FC<Props> = ({ items, location, currencySymbol, distan
     }
 
     return () => cancelAnimationFrame(timer);
-  }, [items, location, distanceUnit, maxDistance, cachedData]);
+  }, [items, location, distanceUnit, maxDistance, tripCosts, storePreferences, provider, currencyContext, cachedData]);
 
   const currentStrategy = rankedShops[activeIndex];
-
-  const handleOpenMaps = (query: string) => {
-    const url = `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(query)}`;
+  // Each check reads the item's whole history, so only redo them when the receipt changes.
+  const pricyLines = useMemo(() => currentStrategy?.receipt.map(line =>
+    isUnusuallyHigh(line.itemName, line.price, line.unitPrice, line.unitPriceBasis, currencyContext)) || [],
+  [currentStrategy, currencyContext]);
+  const bestSplit = rankedShops
+    .filter(shop => shop.stops)
+    .reduce<RankedShop | null>((best, shop) => !best || shop.totalPrice < best.totalPrice ? shop : best, null);
+
+  // Where the strategy would sit on price alone, to show what the favourite bonus did.
+  const rankWithoutBonus = currentStrategy ? [...rankedShops].sort((a, b) =>
+    Number(b.isWithinPreference) - Number(a.isWithinPreference) || a.totalPrice - b.totalPrice).indexOf(currentStrategy) : -1;
+  const favouriteBonus = currentStrategy ? getFavouriteBonus(currentStrategy, storePreferences) : 0;
+  const loyaltyShops = currentStrategy
+    ? (currentStrategy.stops?.map(s => s.shopName) || [currentStrategy.shopName]).filter(shop => getLoyaltyDiscount(shop, storePreferences) > 0)
+    : [];
+  const showStoreRules = storePreferences.excluded.length > 0 || favouriteBonus > 0 || loyaltyShops.length > 0;
+
+  const handleOpenMaps = (query: string, placeId?: string) => {
+    const place = placeId && !placeId.startsWith('fixture:') ? `&query_place_id=${encodeURIComponent(placeId)}` : '';
+    const url = `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(query)}${place}`;
     window.open(url, '_blank');
   };
 
@@ -240,7 +357,7 @@ const SummaryModal: React.FC<Props> = ({ items, location, currencySymbol, distan
                   <div className="flex justify-between items-start">
                     <div className="flex-1 overflow-hidden">
                       <div className="flex flex-wrap items-center gap-2 mb-1">
-                        <p className="text-indigo-200 font-bold text-[10px] uppercase tracking-widest">Selected Store</p>
+                        <p className="text-indigo-200 font-bold text-[10px] uppercase tracking-widest">{currentStrategy.stops ? 'Split Trip' : 'Selected Store'}</p>
                         <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold ${currentStrategy.isWithinPreference ? 'bg-indigo-500' : 'bg-red-500/50'}`}>
                           {currentStrategy.distance}
                         </span>
@@ -252,13 +369,40 @@ const SummaryModal: React.FC<Props> = ({ items, location, currencySymbol, distan
                         )}
                       </div>
                       <h3 className="text-2xl font-black mb-1 leading-tight truncate">{currentStrategy.branchName}</h3>
-                      <button 
-                        onClick={() => handleOpenMaps(currentStrategy.branchName)}
-                        className="flex items-center gap-1.5 mt-2 bg-white/10 hover:bg-white/20 transition-colors px-3 py-1.5 rounded-xl text-xs font-bold border border-white/20"
-                      >
-                        <svg className="w-4 h-4" viewBox="0 0 24 24" fill="currentColor"><path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z"/></svg>
-                        Get Directions
-                      </button>
+                      {currentStrategy.stops ? (
+                        <div className="mt-3 space-y-2">
+                          {currentStrategy.stops.map((stop, i) => (
+                            <div key={stop.shopName} className="flex items-center justify-between gap-2 bg-white/10 rounded-xl px-3 py-2 border border-white/20">
+                              <div className="overflow-hidden">
+                                <p className="text-xs font-bold truncate">{i + 1}. {stop.branchName}</p>
+                                <p className="text-[10px] text-indigo-200 font-medium">{stop.distance} · {stop.itemCount} items · {formatMoney(stop.subtotal, currencyContext.base)}</p>
+                              </div>
+                              <button 
+                                onClick={() => handleOpenMaps(stop.branchName, stop.placeId)}
+                                className="shrink-0 bg-white/10 hover:bg-white/20 transition-colors p-1.5 rounded-lg"
+                              >
+                                <svg className="w-4 h-4" viewBox="0 0 24 24" fill="currentColor"><path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z"/></svg>
+                              </button>
+                            </div>
+                          ))}
+                          <button 
+                            onClick={() => window.open(buildDirectionsUrl(location, currentStrategy.stops!), '_blank')}
+                            className="w-full flex items-center justify-center gap-1.5 bg-white/10 hover:bg-white/20 transition-colors px-3 py-2 rounded-xl text-xs font-bold border border-white/20"
+                          >
+                            <svg className="w-4 h-4" viewBox="0 0 24 24" fill="currentColor"><path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z"/></svg>
+                            Directions for All {currentStrategy.stops.length} Stops
+                            {currentStrategy.routeDistance !== undefined && <span className="text-indigo-200">· {formatDistance(currentStrategy.routeDistance, distanceUnit)} round trip</span>}
+                          </button>
+                        </div>
+                      ) : (
+                        <button 
+                          onClick={() => handleOpenMaps(currentStrategy.branchName, currentStrategy.placeId)}
+                          className="flex items-center gap-1.5 mt-2 bg-white/10 hover:bg-white/20 transition-colors px-3 py-1.5 rounded-xl text-xs font-bold border border-white/20"
+                        >
+                          <svg className="w-4 h-4" viewBox="0 0 24 24" fill="currentColor"><path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z"/></svg>
+                          Get Directions
+                        </button>
+                      )}
                     </div>
                   </div>
 
@@ -280,7 +424,7 @@ const SummaryModal: React.FC<Props> = ({ items, location, currencySymbol, distan
                                   {shop.isCheapest && <span className={`text-[8px] font-black uppercase ${idx === activeIndex ? 'text-amber-600' : 'text-amber-300'}`}>Cheapest</span>}
                                 </div>
                               </div>
-                              <span className="font-mono text-xs font-black shrink-0">{currencySymbol}{shop.totalPrice.toFixed(2)}</span>
+                              <span className="font-mono text-xs font-black shrink-0">{formatMoney(shop.totalPrice, currencyContext.base)}</span>
                             </button>
                           </div>
                         ))}
@@ -291,12 +435,53 @@ const SummaryModal: React.FC<Props> = ({ items, location, currencySymbol, distan
                   <div className="flex justify-between items-end mt-4">
                     <p className="text-indigo-100 text-sm leading-tight opacity-90">
                       Strategy projection total.
+                      {!!currentStrategy.travelCost && <span className="block text-[10px] font-bold uppercase tracking-widest text-indigo-200 mt-1">Incl. {formatMoney(currentStrategy.travelCost, currencyContext.base)} extra travel</span>}
                     </p>
-                    <p className="text-3xl font-black">{currencySymbol}{currentStrategy.totalPrice.toFixed(2)}</p>
+                    <p className="text-3xl font-black">{formatMoney(currentStrategy.totalPrice, currencyContext.base)}</p>
                   </div>
                 </div>
               </div>
 
+              <BranchMap
+                origin={location}
+                strategies={rankedShops}
+                activeIndex={activeIndex}
+                maxDistance={maxDistance}
+                distanceUnit={distanceUnit}
+                onSelect={setActiveIndex}
+              />
+
+              {budget > 0 && currentStrategy.totalPrice > budget && (
+                <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-2xl border border-red-200 dark:border-red-800/40">
+                  <p className="text-sm font-bold text-red-600 dark:text-red-400">⚠️ {formatMoney(currentStrategy.totalPrice - budget, currencyContext.base)} over your {formatMoney(budget, currencyContext.base)} budget</p>
+                  {budgetSuggestions.length > 0 && (
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1 leading-relaxed">
+                      Cheaper variants to try: {budgetSuggestions.map(s => `${s.item.name} → ${s.alternatives[0]}`).join(', ')}. Swap them from your list.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {showStoreRules && (
+                <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-2xl border border-slate-200 dark:border-slate-800 space-y-2">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Your Store Rules</p>
+                  {loyaltyShops.length > 0 && (
+                    <p className="text-xs text-slate-600 dark:text-slate-300">
+                      💳 Loyalty {loyaltyShops.map(shop => `${shop} ${Math.round(getLoyaltyDiscount(shop, storePreferences) * 100)}%`).join(', ')}: <b className="text-green-600 dark:text-green-400">−{formatMoney(currentStrategy.loyaltySavings || 0, currencyContext.base)}</b> off this total
+                    </p>
+                  )}
+                  {favouriteBonus > 0 && (
+                    <p className="text-xs text-slate-600 dark:text-slate-300">
+                      ⭐ Favourite {(currentStrategy.stops?.map(s => s.shopName) || [currentStrategy.shopName]).filter(shop => isFavourite(shop, storePreferences)).join(', ')}: ranked #{activeIndex + 1}
+                      {rankWithoutBonus !== activeIndex ? `, #${rankWithoutBonus + 1} on price alone` : ', same as on price alone'}
+                    </p>
+                  )}
+                  {storePreferences.excluded.length > 0 && (
+                    <p className="text-xs text-slate-600 dark:text-slate-300">🚫 Never considered: {storePreferences.excluded.join(', ')}</p>
+                  )}
+                </div>
+              )}
+
               <div className="border border-slate-200 dark:border-slate-800 rounded-2xl overflow-hidden bg-white dark:bg-slate-900 shadow-sm">
                 <button 
                   onClick={() => setShowReceipt(!showReceipt)}
@@ -315,10 +500,14 @@ const SummaryModal: React.FC<Props> = ({ items, location, currencySymbol, distan
                     {currentStrategy.receipt.map((item, i) => (
                       <div key={i} className="flex justify-between items-center text-sm">
                         <span className="text-slate-600 dark:text-slate-400 font-medium truncate pr-4">
+                          {currentStrategy.stops && item.shopName && <span className="mr-2 text-[10px] bg-indigo-50 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-300 px-1.5 py-0.5 rounded font-bold uppercase">{item.shopName}</span>}
+                          {item.quantity !== 1 && <span className="text-slate-400 font-mono text-xs mr-1">{formatQuantity(item.quantity, item.unit)}</span>}
                           {item.itemName} 
+                          {item.unitPrice !== undefined && <span className="ml-2 text-[10px] text-slate-400 font-mono">{formatUnitPrice(currencyContext.base, item.unitPrice, item.unitPriceBasis)}</span>}
+                          {pricyLines[i] && <span className="ml-2 text-[10px] bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-400 px-1.5 py-0.5 rounded font-bold uppercase" title="Well above this item's usual price">Pricey</span>}
                           {item.isCheapestHere && <span className="ml-2 text-[10px] bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-400 px-1.5 py-0.5 rounded font-bold uppercase">Best Deal</span>}
                         </span>
-                        <span className="text-slate-800 dark:text-slate-200 font-mono shrink-0">{currencySymbol}{item.price.toFixed(2)}</span>
+                        <span className="text-slate-800 dark:text-slate-200 font-mono shrink-0">{formatMoney(item.lineTotal, currencyContext.base)}</span>
                       </div>
                     ))}
                   </div>
@@ -341,7 +530,18 @@ const SummaryModal: React.FC<Props> = ({ items, location, currencySymbol, distan
                   </button>
                   {showCheapestPerStore && (
                     <div className="p-4 bg-white dark:bg-slate-900 border-t border-slate-100 dark:border-slate-800 space-y-4 animate-in slide-in-from-top-2">
-                      <p className="text-xs text-slate-500 dark:text-slate-400 italic font-medium">By picking {currentStrategy.branchName}, you pay <b>{currencySymbol}{currentStrategy.potentialSavings.toFixed(2)}</b> extra vs splitting trips. Here's what's cheaper elsewhere:</p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400 italic font-medium">By picking {currentStrategy.branchName}, you pay <b>{formatMoney(currentStrategy.potentialSavings, currencyContext.base)}</b> extra vs buying every item at its cheapest shop. Here's what's cheaper elsewhere:</p>
+                      {bestSplit && bestSplit !== currentStrategy && bestSplit.totalPrice < currentStrategy.totalPrice && (
+                        <button 
+                          onClick={() => setActiveIndex(rankedShops.indexOf(bestSplit))}
+                          className="w-full text-left p-3 bg-indigo-50 dark:bg-indigo-900/30 rounded-xl border border-indigo-100 dark:border-indigo-800/40 hover:border-indigo-300 transition-colors"
+                        >
+                          <p className="text-[10px] text-indigo-500 uppercase font-black tracking-widest">Worth the extra stop</p>
+                          <p className="text-sm font-bold text-slate-800 dark:text-slate-100">
+                            {bestSplit.shopName} saves {formatMoney(currentStrategy.totalPrice - bestSplit.totalPrice, currencyContext.base)} after {formatMoney(bestSplit.travelCost || 0, currencyContext.base)} travel
+                          </p>
+                        </button>
+                      )}
                       {currentStrategy.savingsDiff.map((diff, i) => (
                         <div key={i} className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-800">
                           <div className="overflow-hidden">
@@ -349,7 +549,8 @@ const SummaryModal: React.FC<Props> = ({ items, location, currencySymbol, distan
                             <p className="text-[10px] text-slate-500 uppercase font-black">Best at <span className="text-indigo-600 dark:text-indigo-400">{diff.cheapestShop}</span></p>
                           </div>
                           <div className="text-right shrink-0">
-                            <p className="font-bold text-green-600 dark:text-green-400 text-sm">{currencySymbol}{diff.cheapestPrice.toFixed(2)}</p>
+                            <p className="font-bold text-green-600 dark:text-green-400 text-sm">{formatMoney(diff.cheapestPrice, currencyContext.base)}</p>
+                            {diff.cheapestUnitPrice !== undefined && <p className="text-[10px] text-slate-400 font-mono">{formatUnitPrice(currencyContext.base, diff.cheapestUnitPrice, diff.unitPriceBasis)}</p>}
                           </div>
                         </div>
                       ))}
@@ -361,13 +562,39 @@ const SummaryModal: React.FC<Props> = ({ items, location, currencySymbol, distan
           ) : null}
         </div>
 
-        <div className="p-6 bg-slate-50 dark:bg-slate-800 border-t border-slate-100 dark:border-slate-800">
-          <button 
-            onClick={onClose}
-            className="w-full bg-slate-900 dark:bg-slate-100 dark:text-slate-900 text-white font-black py-4 rounded-2xl transition-all duration-200 shadow-xl hover:scale-[1.02] active:scale-100"
-          >
-            Back to List
-          </button>
+        <div className="p-6 bg-slate-50 dark:bg-slate-800 border-t border-slate-100 dark:border-slate-800 space-y-3">
+          {currentStrategy && !loading && (
+            <button 
+              onClick={() => onStartTrip(currentStrategy)}
+              className="w-full bg-indigo-600 text-white font-black py-4 rounded-2xl transition-all duration-200 shadow-xl hover:bg-indigo-700"
+            >
+              🛒 Start Shopping Here
+            </button>
+          )}
+          <div className="flex gap-3">
+            {currentStrategy && !loading && (
+              <button 
+                onClick={() => onExport(currentStrategy)}
+                className="px-5 bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-100 font-black rounded-2xl border border-slate-200 dark:border-slate-600 hover:border-indigo-400 transition-colors"
+              >
+                Export
+              </button>
+            )}
+            {currentStrategy && !loading && (
+              <button 
+                onClick={() => onLogTrip(currentStrategy)}
+                className="px-5 bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-100 font-black rounded-2xl border border-slate-200 dark:border-slate-600 hover:border-indigo-400 transition-colors"
+              >
+                Log Trip
+              </button>
+            )}
+            <button 
+              onClick={onClose}
+              className="flex-1 bg-slate-900 dark:bg-slate-100 dark:text-slate-900 text-white font-black py-4 rounded-2xl transition-all duration-200 shadow-xl hover:scale-[1.02] active:scale-100"
+            >
+              Back to List
+            </button>
+          </div>
         </div>
       </div>
     </div>
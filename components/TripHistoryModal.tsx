@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import { CompletedTrip, getTrips, getShopAccuracy, deleteTrip } from '../services/tripLog';
+import { CurrencyContext, convertAmount, formatMoney } from '../services/currency';
+import { formatQuantity } from '../services/units';
+
+interface Props {
+  currencyContext: CurrencyContext;
+  initialTripId?: string;
+  onClose: () => void;
+}
+
+const formatPercent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+
+const TripHistoryModal: React.FC<Props> = ({ currencyContext, initialTripId, onClose }) => {
+  const [trips, setTrips] = useState<CompletedTrip[]>(getTrips);
+  const [expandedId, setExpandedId] = useState<string | undefined>(initialTripId);
+
+  const accuracy = useMemo(() => getShopAccuracy(trips), [trips]);
+  // Trips keep the currency they were logged in; show them in today's.
+  const money = (amount: number, trip: CompletedTrip) => formatMoney(convertAmount(amount, trip.currency, currencyContext), currencyContext.base);
+
+  const handleDelete = (id: string) => {
+    if (!window.confirm("Delete this trip?")) return;
+    deleteTrip(id);
+    setTrips(getTrips());
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md z-[80] flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 w-full max-w-md rounded-3xl p-8 border border-slate-200 dark:border-slate-800 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest">Projected vs Actual</p>
+            <h2 className="text-2xl font-black">🧾 Past Trips</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><svg className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M6 18L18 6M6 6l12 12" strokeWidth={3} /></svg></button>
+        </div>
+
+        {trips.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 opacity-40">
+            <div className="text-5xl mb-4">🧾</div>
+            <p className="text-sm font-black uppercase tracking-widest text-center">No trips yet</p>
+            <p className="text-xs mt-2 text-center">Log one from a strategy after you shop.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest block mb-2">Accuracy by Shop</label>
+              <div className="space-y-2">
+                {accuracy.map(shop => (
+                  <div key={shop.shopName} className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-800">
+                    <div>
+                      <p className="font-bold text-sm text-slate-800 dark:text-slate-100">{shop.shopName}</p>
+                      <p className="text-[10px] text-slate-400 font-bold uppercase">{shop.lineCount} items checked</p>
+                    </div>
+                    <div className="text-right font-mono">
+                      <p className="text-sm font-black text-slate-800 dark:text-slate-100">±{formatPercent(shop.meanError)}</p>
+                      <p className={`text-[10px] font-bold ${shop.bias > 0 ? 'text-red-500' : 'text-green-600'}`}>{shop.bias > 0 ? 'Pricier' : 'Cheaper'} by {formatPercent(Math.abs(shop.bias))} on avg</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {trips.map(trip => {
+                const difference = trip.actualTotal - trip.projectedTotal;
+                const isExpanded = expandedId === trip.id;
+                return (
+                  <div key={trip.id} className="border border-slate-200 dark:border-slate-800 rounded-2xl overflow-hidden">
+                    <button onClick={() => setExpandedId(isExpanded ? undefined : trip.id)} className="w-full flex items-center justify-between p-4 text-left hover:bg-slate-50 dark:hover:bg-slate-800/50">
+                      <div className="overflow-hidden">
+                        <p className="font-bold text-sm text-slate-800 dark:text-slate-100 truncate">{trip.strategyName}</p>
+                        <p className="text-[10px] text-slate-400 font-bold uppercase truncate">{trip.listName} · {new Date(trip.completedAt).toLocaleDateString()}</p>
+                      </div>
+                      <div className="text-right font-mono shrink-0">
+                        <p className="text-sm font-black">{money(trip.actualTotal, trip)}</p>
+                        <p className={`text-[10px] font-bold ${difference > 0.005 ? 'text-red-500' : 'text-green-600'}`}>{difference >= 0 ? '+' : '−'}{money(Math.abs(difference), trip)}</p>
+                      </div>
+                    </button>
+                    {isExpanded && (
+                      <div className="px-4 pb-4 space-y-2">
+                        {trip.lines.map((line, idx) => (
+                          <div key={idx} className="flex justify-between text-xs gap-3">
+                            <span className="text-slate-600 dark:text-slate-300 truncate">{formatQuantity(line.quantity, line.unit)} {line.itemName}</span>
+                            <span className="font-mono shrink-0">
+                              <span className="text-slate-400">{money(line.projected, trip)} → </span>
+                              <span className={line.actual > line.projected + 0.005 ? 'text-red-500 font-bold' : line.actual < line.projected - 0.005 ? 'text-green-600 font-bold' : 'text-slate-700 dark:text-slate-200'}>{money(line.actual, trip)}</span>
+                            </span>
+                          </div>
+                        ))}
+                        <div className="flex justify-between text-xs font-black pt-2 border-t border-slate-100 dark:border-slate-800">
+                          <span>Total</span>
+                          <span className="font-mono">{money(trip.projectedTotal, trip)} → {money(trip.actualTotal, trip)}</span>
+                        </div>
+                        <button onClick={() => handleDelete(trip.id)} className="text-[10px] font-bold uppercase text-slate-400 hover:text-red-500">Delete Trip</button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TripHistoryModal;
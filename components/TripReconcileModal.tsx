@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { LocationState, RankedShop } from '../types';
+import { CompletedTrip, completeTrip, createTripLines, getTripTotals } from '../services/tripLog';
+import { CurrencyContext, formatMoney } from '../services/currency';
+import { formatQuantity } from '../services/units';
+
+interface Props {
+  strategy: RankedShop;
+  listName: string;
+  skippedLines?: number[]; // Receipt lines not bought, which start at 0
+  location: LocationState;
+  currencyContext: CurrencyContext;
+  onSaved: (trip: CompletedTrip) => void;
+  onClose: () => void;
+}
+
+// Pre-filled with the projection, so only the lines that differed need touching.
+const TripReconcileModal: React.FC<Props> = ({ strategy, listName, skippedLines = [], location, currencyContext, onSaved, onClose }) => {
+  const [lines] = useState(() => createTripLines(strategy));
+  const [actuals, setActuals] = useState<string[]>(() => lines.map((l, idx) => skippedLines.includes(idx) ? '0' : l.actual.toFixed(2)));
+
+  const parsed = actuals.map(a => Math.max(0, parseFloat(a) || 0));
+  const { projectedTotal, actualTotal } = getTripTotals(lines.map((l, idx) => ({ ...l, actual: parsed[idx] })));
+  const difference = actualTotal - projectedTotal;
+
+  const handleSave = () => {
+    const trip = completeTrip({
+      listName,
+      strategyName: strategy.stops ? strategy.shopName : `${strategy.shopName} (${strategy.branchName})`,
+      currency: currencyContext.base,
+      lines: lines.map((l, idx) => ({ ...l, actual: parsed[idx] }))
+    }, location);
+    onSaved(trip);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md z-[80] flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 w-full max-w-md rounded-3xl p-8 border border-slate-200 dark:border-slate-800 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <div className="overflow-hidden">
+            <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest">What Did You Pay?</p>
+            <h2 className="text-2xl font-black truncate">{strategy.shopName}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><svg className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M6 18L18 6M6 6l12 12" strokeWidth={3} /></svg></button>
+        </div>
+
+        <p className="text-xs text-slate-500 dark:text-slate-400 mb-4 leading-relaxed">Correct any line that rang up differently. Set a line to 0 if you didn't buy it.</p>
+
+        <div className="space-y-2 mb-6">
+          {lines.map((line, idx) => (
+            <div key={idx} className="flex items-center gap-3 p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-800">
+              <div className="flex-1 overflow-hidden">
+                <p className="text-sm font-bold text-slate-800 dark:text-slate-100 truncate">{formatQuantity(line.quantity, line.unit)} {line.itemName}</p>
+                <p className="text-[10px] text-slate-400 font-bold uppercase truncate">{strategy.stops ? `${line.shopName} · ` : ''}Projected {formatMoney(line.projected, currencyContext.base)}</p>
+              </div>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={actuals[idx]}
+                onChange={(e) => setActuals(actuals.map((a, i) => i === idx ? e.target.value : a))}
+                className={`w-24 bg-white dark:bg-slate-800 border-2 rounded-xl py-2 px-3 text-sm font-mono font-bold text-right dark:text-white ${parsed[idx] > line.projected + 0.005 ? 'border-red-200 dark:border-red-800' : parsed[idx] < line.projected - 0.005 ? 'border-green-200 dark:border-green-800' : 'border-slate-100 dark:border-slate-700'}`}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between items-end mb-6 p-4 bg-slate-900 dark:bg-slate-800 text-white rounded-2xl">
+          <div>
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Projected {formatMoney(projectedTotal, currencyContext.base)}</p>
+            <p className={`text-xs font-bold ${difference > 0.005 ? 'text-red-400' : 'text-green-400'}`}>
+              {Math.abs(difference) < 0.005 ? 'Spot on' : `${difference > 0 ? '+' : '−'}${formatMoney(Math.abs(difference), currencyContext.base)} vs projection`}
+            </p>
+          </div>
+          <p className="text-2xl font-black font-mono">{formatMoney(actualTotal, currencyContext.base)}</p>
+        </div>
+
+        <button onClick={handleSave} className="w-full bg-indigo-600 text-white py-5 rounded-3xl font-black text-lg hover:bg-indigo-700 transition-colors">Save Trip</button>
+      </div>
+    </div>
+  );
+};
+
+export default TripReconcileModal;
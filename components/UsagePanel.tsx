@@ -0,0 +1,94 @@
+import React from 'react';
+import { ApiUsageLimits } from '../types';
+import { RequestClass } from '../services/requestScheduler';
+import { ApiCallRecord, DailyUsage, REQUEST_CLASS_LABELS, USAGE_WARNING_FRACTION, getRemainingCalls } from '../services/usageMeter';
+
+interface Props {
+  usage: DailyUsage;
+  recentCalls: ApiCallRecord[];
+  limits: ApiUsageLimits;
+  listEstimate: Record<RequestClass, number>; // Calls still needed to price the active list
+  onChangeLimits: (limits: ApiUsageLimits) => void;
+}
+
+const CLASSES: RequestClass[] = ['search', 'plain', 'maps'];
+
+const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+
+// Today's calls against the limits the user has set, so the quota runs low in plain
+// sight rather than all at once on a 429.
+const UsagePanel: React.FC<Props> = ({ usage, recentCalls, limits, listEstimate, onChangeLimits }) => {
+  const remaining = getRemainingCalls(usage, limits);
+  const shortfalls = CLASSES.filter(c => listEstimate[c] > remaining[c]);
+  const isNeeded = CLASSES.some(c => listEstimate[c] > 0);
+  const warnings = CLASSES.filter(c => limits[c] > 0 && usage.byClass[c].calls >= limits[c] * USAGE_WARNING_FRACTION);
+  const models = Object.entries(usage.byModel).sort((a, b) => b[1].calls - a[1].calls);
+
+  return (
+    <div>
+      <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest block mb-2">API Usage Today</label>
+      <div className="space-y-3 mb-3">
+        {CLASSES.map(requestClass => {
+          const { calls, failures, tokens } = usage.byClass[requestClass];
+          const limit = limits[requestClass];
+          const fraction = limit > 0 ? Math.min(1, calls / limit) : 0;
+          return (
+            <div key={requestClass}>
+              <div className="flex justify-between items-baseline text-xs font-bold mb-1">
+                <span className="text-slate-700 dark:text-slate-200">{REQUEST_CLASS_LABELS[requestClass]}</span>
+                <span className="font-mono text-slate-500">
+                  {calls} /
+                  <input
+                    type="number"
+                    min="0"
+                    value={limit}
+                    onChange={(e) => onChangeLimits({ ...limits, [requestClass]: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="w-16 ml-1 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-lg py-0.5 px-1.5 text-xs font-bold text-right dark:text-white"
+                  />
+                </span>
+              </div>
+              <div className="h-2 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+                <div className={`h-full rounded-full transition-all ${fraction >= 1 ? 'bg-red-500' : fraction >= USAGE_WARNING_FRACTION ? 'bg-amber-500' : 'bg-indigo-500'}`} style={{ width: `${fraction * 100}%` }}></div>
+              </div>
+              <p className="text-[10px] text-slate-400 font-bold uppercase mt-1">{formatTokens(tokens)} tokens{failures > 0 ? ` · ${failures} failed` : ''}</p>
+            </div>
+          );
+        })}
+      </div>
+
+      {warnings.length > 0 && (
+        <div className="p-3 mb-3 bg-amber-50 dark:bg-amber-900/20 rounded-xl border border-amber-200 dark:border-amber-800/40 text-xs font-bold text-amber-700 dark:text-amber-400">
+          ⚠️ {warnings.map(c => `${REQUEST_CLASS_LABELS[c]}: ${remaining[c]} left`).join(' · ')}
+        </div>
+      )}
+
+      {isNeeded && (
+        <div className={`p-3 mb-3 rounded-xl border text-xs font-bold ${shortfalls.length > 0 ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800/40 text-red-700 dark:text-red-400' : 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800/40 text-emerald-700 dark:text-emerald-400'}`}>
+          {shortfalls.length > 0
+            ? `Pricing this list needs up to ${shortfalls.map(c => `${listEstimate[c]} ${REQUEST_CLASS_LABELS[c].toLowerCase()}`).join(' and ')}, more than today has left.`
+            : `Pricing this list needs up to ${CLASSES.filter(c => listEstimate[c] > 0).map(c => `${listEstimate[c]} ${REQUEST_CLASS_LABELS[c].toLowerCase()}`).join(' and ')}. That fits in today's quota.`}
+        </div>
+      )}
+
+      {models.length > 0 && (
+        <div className="space-y-1 mb-3">
+          {models.map(([model, counters]) => (
+            <div key={model} className="flex justify-between text-[10px] font-bold text-slate-400 uppercase">
+              <span className="truncate">{model}</span>
+              <span className="font-mono shrink-0">{counters.calls} calls · {formatTokens(counters.tokens)} tokens</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {recentCalls.length > 0 && (
+        <p className="text-[10px] text-slate-400 leading-relaxed">
+          Last call {new Date(recentCalls[0].at).toLocaleTimeString()} · {REQUEST_CLASS_LABELS[recentCalls[0].requestClass]} {recentCalls[0].ok ? 'succeeded' : `failed${recentCalls[0].status ? ` (${recentCalls[0].status})` : ''}`}
+        </p>
+      )}
+      <p className="text-[10px] text-slate-400 mt-2 leading-relaxed">Counts reset at midnight Pacific time, like Gemini's daily quotas. Set each limit to match your tier; the bar turns amber at {USAGE_WARNING_FRACTION * 100}%.</p>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,35 @@
+import { ShoppingItem } from "../types";
+import { CurrencyContext, convertAmount } from "./currency";
+import { getItemCost, getQuantity, rankPriceOptions } from "./units";
+
+// How many items we suggest swapping at once when the list is over budget.
+const MAX_SUBSTITUTIONS = 3;
+
+export interface SubstitutionSuggestion {
+  item: ShoppingItem;
+  lineCost: number;
+  alternatives: string[];
+}
+
+// What the item costs at its cheapest shop, in the user's currency.
+export function getCheapestLineCost(item: ShoppingItem, ctx: CurrencyContext): number {
+  const cheapest = rankPriceOptions(item.topOptions || [], item, ctx)[0];
+  if (cheapest) return convertAmount(getItemCost(cheapest, item), cheapest.currency, ctx);
+  return convertAmount((item.price || 0) * getQuantity(item), item.currency, ctx);
+}
+
+// Best case for the list: every priced item bought at its cheapest shop.
+export function getProjectedTotal(items: ShoppingItem[], ctx: CurrencyContext): number {
+  return items
+    .filter(i => i.status === 'ready')
+    .reduce((total, item) => total + getCheapestLineCost(item, ctx), 0);
+}
+
+// The priciest lines are where a cheaper variant saves the most, so suggest those first.
+export function suggestSubstitutions(items: ShoppingItem[], ctx: CurrencyContext): SubstitutionSuggestion[] {
+  return items
+    .filter(i => i.status === 'ready' && i.alternatives && i.alternatives.length > 0)
+    .map(item => ({ item, lineCost: getCheapestLineCost(item, ctx), alternatives: item.alternatives! }))
+    .sort((a, b) => b.lineCost - a.lineCost)
+    .slice(0, MAX_SUBSTITUTIONS);
+}
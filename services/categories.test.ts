@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { classifyItem, getCategoryRank, normaliseCategory } from './categories';
+
+describe('classifyItem', () => {
+  it.each([
+    ['Semi-skimmed milk', 'dairy'],
+    ['Free range eggs', 'dairy'],
+    ['Bananas', 'produce'],
+    ['Cherry tomatoes', 'produce'],
+    ['Olive oil', 'pantry'],
+    ['Bread rolls', 'bakery'],
+    ['Mystery box', 'other']
+  ])('puts %s in %s', (name, category) => {
+    expect(classifyItem(name)).toBe(category);
+  });
+
+  it.each([
+    ['Vanilla ice cream', 'frozen'],
+    ['Fish fingers', 'frozen'],
+    ['Kitchen roll', 'household'],
+    ['Toilet roll', 'household'],
+    ['Foil', 'household'],
+    ['Butternut squash', 'produce']
+  ])('is not fooled by a keyword inside %s', (name, category) => {
+    expect(classifyItem(name)).toBe(category);
+  });
+
+  it('lets a qualifier override what the item is', () => {
+    expect(classifyItem('Frozen peas')).toBe('frozen');
+    expect(classifyItem('Tinned tomatoes')).toBe('pantry');
+    expect(classifyItem('Peanut butter')).toBe('pantry');
+  });
+});
+
+describe('normaliseCategory', () => {
+  it('accepts ids and display names', () => {
+    expect(normaliseCategory('Dairy')).toBe('dairy');
+    expect(normaliseCategory('fruit & veg')).toBe('produce');
+    expect(normaliseCategory('aisle 9')).toBeUndefined();
+  });
+});
+
+describe('getCategoryRank', () => {
+  it('puts categories missing from a custom order last', () => {
+    expect(getCategoryRank('frozen', ['frozen', 'dairy'])).toBe(0);
+    expect(getCategoryRank('produce', ['frozen', 'dairy'])).toBeGreaterThan(1);
+  });
+});
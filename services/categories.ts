@@ -0,0 +1,58 @@
+import { GroceryCategory } from "../types";
+import { matchesKeyword } from "./keywords";
+
+// Rough supermarket layout, in the order most UK stores walk you through it. The
+// keywords are a fallback for items refined before categories existed, or by a
+// provider that doesn't return one.
+export const CATEGORIES: Array<{ id: GroceryCategory; name: string; emoji: string; keywords: string[] }> = [
+  { id: 'produce', name: 'Fruit & Veg', emoji: '🥦', keywords: ['apple', 'banana', 'orange', 'lemon', 'lime', 'grape', 'berry', 'berries', 'melon', 'pear', 'potato', 'onion', 'garlic', 'carrot', 'tomato', 'pepper', 'lettuce', 'salad', 'spinach', 'broccoli', 'cucumber', 'mushroom', 'courgette', 'avocado', 'herb', 'ginger', 'leek', 'cabbage', 'butternut squash'] },
+  { id: 'bakery', name: 'Bakery', emoji: '🥖', keywords: ['bread', 'loaf', 'roll', 'bagel', 'croissant', 'wrap', 'pitta', 'muffin', 'cake'] },
+  { id: 'meat', name: 'Meat & Fish', emoji: '🥩', keywords: ['chicken', 'beef', 'mince', 'pork', 'lamb', 'bacon', 'sausage', 'ham', 'turkey', 'steak', 'fish', 'salmon', 'cod', 'tuna', 'prawn'] },
+  { id: 'dairy', name: 'Dairy & Eggs', emoji: '🧀', keywords: ['milk', 'cheese', 'cheddar', 'butter', 'yoghurt', 'yogurt', 'cream', 'egg', 'margarine'] },
+  { id: 'pantry', name: 'Cupboard', emoji: '🥫', keywords: ['rice', 'pasta', 'spaghetti', 'noodle', 'flour', 'sugar', 'oil', 'vinegar', 'salt', 'spice', 'stock', 'sauce', 'beans', 'tinned', 'tin', 'chopped', 'cereal', 'oats', 'jam', 'honey', 'peanut', 'soup', 'lentil'] },
+  { id: 'drinks', name: 'Drinks', emoji: '🧃', keywords: ['coffee', 'tea', 'juice', 'water', 'squash', 'cola', 'lemonade', 'beer', 'wine'] },
+  { id: 'frozen', name: 'Frozen', emoji: '🧊', keywords: ['frozen', 'ice cream', 'peas', 'chips', 'fish fingers'] },
+  { id: 'snacks', name: 'Snacks', emoji: '🍫', keywords: ['crisps', 'chocolate', 'biscuit', 'sweets', 'nuts', 'popcorn'] },
+  { id: 'household', name: 'Household', emoji: '🧽', keywords: ['toilet', 'washing', 'detergent', 'bleach', 'bin bag', 'kitchen roll', 'toilet roll', 'foil', 'cling', 'sponge', 'soap', 'shampoo', 'toothpaste', 'fairy'] },
+  { id: 'other', name: 'Other', emoji: '🛒', keywords: [] }
+];
+
+export const DEFAULT_CATEGORY_ORDER: GroceryCategory[] = CATEGORIES.map(c => c.id);
+
+// Words that say where an item lives regardless of what it is: tinned tomatoes are
+// in the cupboard aisle, frozen peas in the freezers, chicken stock with the gravy.
+const QUALIFIERS: Array<[string, GroceryCategory]> = [
+  ['frozen', 'frozen'],
+  ['tinned', 'pantry'],
+  ['dried', 'pantry'],
+  ['stock', 'pantry'],
+  ['peanut butter', 'pantry']
+];
+
+export function normaliseCategory(raw?: string | null): GroceryCategory | undefined {
+  if (!raw) return undefined;
+  const needle = raw.trim().toLowerCase();
+  return CATEGORIES.find(c => c.id === needle || c.name.toLowerCase() === needle)?.id;
+}
+
+// Phrases go before single words, whatever their category, so "ice cream" lands in
+// Frozen before "cream" can claim it for Dairy. Single words keep the layout order.
+const KEYWORDS: Array<[string, GroceryCategory]> = CATEGORIES
+  .flatMap(c => c.keywords.map((k): [string, GroceryCategory] => [k, c.id]))
+  .sort(([a], [b]) => b.split(' ').length - a.split(' ').length);
+
+export function classifyItem(itemName: string): GroceryCategory {
+  const qualified = QUALIFIERS.find(([word]) => matchesKeyword(itemName, word));
+  if (qualified) return qualified[1];
+  return KEYWORDS.find(([k]) => matchesKeyword(itemName, k))?.[1] || 'other';
+}
+
+export function getCategory(id: GroceryCategory) {
+  return CATEGORIES.find(c => c.id === id) || CATEGORIES[CATEGORIES.length - 1];
+}
+
+// A store's custom layout may predate a category; anything it doesn't list goes last.
+export function getCategoryRank(id: GroceryCategory, order: GroceryCategory[] = DEFAULT_CATEGORY_ORDER): number {
+  const index = order.indexOf(id);
+  return index === -1 ? order.length + DEFAULT_CATEGORY_ORDER.indexOf(id) : index;
+}
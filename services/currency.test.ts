@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { convertAmount, DEFAULT_EXCHANGE_RATES, getCurrencySymbol, normaliseCurrencyCode } from './currency';
+
+describe('normaliseCurrencyCode', () => {
+  it('accepts codes, symbols and words', () => {
+    expect(normaliseCurrencyCode('gbp', 'EUR')).toBe('GBP');
+    expect(normaliseCurrencyCode('€', 'GBP')).toBe('EUR');
+    expect(normaliseCurrencyCode('dollars', 'GBP')).toBe('USD');
+    expect(normaliseCurrencyCode('JPY', 'GBP')).toBe('JPY');
+  });
+
+  it('falls back when it cannot tell', () => {
+    expect(normaliseCurrencyCode(undefined, 'GBP')).toBe('GBP');
+    expect(normaliseCurrencyCode('shells', 'GBP')).toBe('GBP');
+  });
+});
+
+describe('convertAmount', () => {
+  const ctx = { base: 'GBP', rates: DEFAULT_EXCHANGE_RATES };
+
+  it('converts through the rate table', () => {
+    expect(convertAmount(1.17, 'EUR', ctx)).toBeCloseTo(1);
+    expect(convertAmount(5, '£', ctx)).toBe(5);
+  });
+
+  it('takes the amount as-is without a rate', () => {
+    expect(convertAmount(3, 'JPY', ctx)).toBe(3);
+  });
+});
+
+describe('getCurrencySymbol', () => {
+  it('shows the symbol rather than the code', () => {
+    expect(getCurrencySymbol('GBP')).toBe('£');
+    expect(getCurrencySymbol('EUR')).toBe('€');
+  });
+});
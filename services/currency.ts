@@ -0,0 +1,68 @@
+// Prices can come back in any currency (a search near a border, a store quoting in
+// euros), so every amount is converted into the user's ISO 4217 currency before it
+// is summed or compared.
+
+// Value of one unit of each currency in euros. Users can edit these in Settings.
+export const DEFAULT_EXCHANGE_RATES: Record<string, number> = {
+  EUR: 1,
+  GBP: 1.17,
+  USD: 0.92,
+  CHF: 1.05,
+  CAD: 0.67,
+  AUD: 0.6,
+  PLN: 0.23,
+  SEK: 0.088,
+  NOK: 0.086,
+  DKK: 0.134
+};
+
+export const SUPPORTED_CURRENCIES = Object.keys(DEFAULT_EXCHANGE_RATES);
+
+const SYMBOL_CODES: Record<string, string> = {
+  '£': 'GBP', '€': 'EUR', '$': 'USD', 'us$': 'USD', 'c$': 'CAD', 'ca$': 'CAD', 'a$': 'AUD', 'au$': 'AUD',
+  'zł': 'PLN', 'kr': 'SEK', 'fr': 'CHF', 'chf': 'CHF',
+  'pound': 'GBP', 'pounds': 'GBP', 'gbp': 'GBP', 'euro': 'EUR', 'euros': 'EUR', 'eur': 'EUR',
+  'dollar': 'USD', 'dollars': 'USD', 'usd': 'USD'
+};
+
+export interface CurrencyContext {
+  base: string;
+  rates: Record<string, number>;
+}
+
+// Accepts codes, symbols or words ("GBP", "£", "pounds") and returns an ISO code.
+export function normaliseCurrencyCode(raw: string | undefined, fallback: string): string {
+  if (!raw) return fallback;
+  const trimmed = raw.trim();
+  if (/^[A-Za-z]{3}$/.test(trimmed) && !SYMBOL_CODES[trimmed.toLowerCase()]) return trimmed.toUpperCase();
+  return SYMBOL_CODES[trimmed.toLowerCase()] || fallback;
+}
+
+export function convertAmount(amount: number, from: string | undefined, ctx: CurrencyContext): number {
+  const fromCode = normaliseCurrencyCode(from, ctx.base);
+  if (fromCode === ctx.base) return amount;
+  const fromRate = ctx.rates[fromCode];
+  const toRate = ctx.rates[ctx.base];
+  // Without a rate for either side the best we can do is take the number as-is.
+  if (!fromRate || !toRate) return amount;
+  return amount * fromRate / toRate;
+}
+
+const formatters: Record<string, Intl.NumberFormat> = {};
+
+export function formatMoney(amount: number, currency: string): string {
+  if (!formatters[currency]) {
+    try {
+      formatters[currency] = new Intl.NumberFormat(undefined, { style: 'currency', currency });
+    } catch (e) {
+      formatters[currency] = new Intl.NumberFormat(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    }
+  }
+  return formatters[currency].format(amount);
+}
+
+// The symbol formatMoney would print ("£", "€", "CHF"), for labelling amount inputs.
+export function getCurrencySymbol(currency: string): string {
+  formatMoney(0, currency);
+  return formatters[currency].formatToParts(0).find(part => part.type === 'currency')?.value || currency;
+}
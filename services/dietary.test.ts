@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { DietaryProfile } from '../types';
+import { EMPTY_DIETARY_PROFILE, findKeywordConflicts, getProfileKey } from './dietary';
+
+const profile = (changes: Partial<DietaryProfile>): DietaryProfile => ({ ...EMPTY_DIETARY_PROFILE, ...changes });
+
+describe('findKeywordConflicts', () => {
+  it('flags items that break the profile', () => {
+    expect(findKeywordConflicts('Smoked ham', profile({ diet: 'vegetarian', religious: 'halal' }))).toEqual(['vegetarian', 'halal']);
+    expect(findKeywordConflicts('Free range eggs', profile({ allergens: ['eggs'] }))).toEqual(['eggs']);
+    expect(findKeywordConflicts('Salted cashew nuts', profile({ allergens: ['nuts'] }))).toEqual(['nuts']);
+  });
+
+  it('only matches whole words', () => {
+    expect(findKeywordConflicts('Shampoo', profile({ diet: 'vegetarian', religious: 'kosher' }))).toEqual([]);
+    expect(findKeywordConflicts('Veggie burger', profile({ allergens: ['eggs'], diet: 'vegan' }))).toEqual([]);
+    expect(findKeywordConflicts('Jam doughnuts', profile({ allergens: ['nuts'] }))).toEqual([]);
+  });
+
+  it('trusts items marked free of the allergen', () => {
+    expect(findKeywordConflicts('Gluten free bread', profile({ allergens: ['gluten'] }))).toEqual([]);
+    expect(findKeywordConflicts('Dairy-free cheese', profile({ allergens: ['dairy'] }))).toEqual([]);
+    expect(findKeywordConflicts('Egg free mayo', profile({ allergens: ['eggs'] }))).toEqual([]);
+    expect(findKeywordConflicts('Oat milk', profile({ allergens: ['dairy'] }))).toEqual([]);
+  });
+});
+
+describe('getProfileKey', () => {
+  it('is empty for the default profile and stable otherwise', () => {
+    expect(getProfileKey(EMPTY_DIETARY_PROFILE)).toBe('');
+    expect(getProfileKey(profile({ allergens: ['nuts', 'eggs'] }))).toBe('eggs,nuts');
+  });
+});
@@ -0,0 +1,107 @@
+import { Allergen, DietaryConflict, DietaryProfile, ShoppingItem } from "../types";
+import { matchesKeyword } from "./keywords";
+
+export const ALLERGENS: Array<{ id: Allergen; label: string }> = [
+  { id: 'gluten', label: 'Gluten' },
+  { id: 'dairy', label: 'Dairy' },
+  { id: 'eggs', label: 'Eggs' },
+  { id: 'peanuts', label: 'Peanuts' },
+  { id: 'nuts', label: 'Tree Nuts' },
+  { id: 'soy', label: 'Soy' },
+  { id: 'fish', label: 'Fish' },
+  { id: 'shellfish', label: 'Shellfish' },
+  { id: 'sesame', label: 'Sesame' }
+];
+
+export const EMPTY_DIETARY_PROFILE: DietaryProfile = {
+  allergens: [],
+  diet: 'none',
+  religious: 'none',
+  preferOrganic: false
+};
+
+// Deliberately cautious: a false badge costs a glance, a missed one costs a lot more.
+// The model's answer from refinement is preferred; these catch what it didn't flag.
+const CONFLICT_KEYWORDS: Record<DietaryConflict, string[]> = {
+  gluten: ['bread', 'loaf', 'roll', 'bagel', 'croissant', 'wrap', 'pitta', 'pasta', 'spaghetti', 'noodle', 'flour', 'biscuit', 'cake', 'cereal', 'beer', 'couscous', 'muffin'],
+  dairy: ['milk', 'cheese', 'cheddar', 'butter', 'yoghurt', 'yogurt', 'cream', 'chocolate'],
+  eggs: ['egg', 'mayonnaise', 'mayo', 'cake', 'muffin'],
+  peanuts: ['peanut'],
+  nuts: ['almond', 'cashew', 'walnut', 'hazelnut', 'pecan', 'pistachio', 'nuts'],
+  soy: ['soy', 'soya', 'tofu', 'edamame'],
+  fish: ['fish', 'salmon', 'cod', 'tuna', 'haddock', 'mackerel', 'anchovy', 'anchovies'],
+  shellfish: ['prawn', 'shrimp', 'crab', 'lobster', 'mussel'],
+  sesame: ['sesame', 'tahini', 'houmous', 'hummus'],
+  vegetarian: ['chicken', 'beef', 'mince', 'pork', 'lamb', 'bacon', 'sausage', 'ham', 'turkey', 'steak', 'gelatine', 'fish', 'salmon', 'cod', 'tuna', 'prawn'],
+  vegan: ['milk', 'cheese', 'butter', 'yoghurt', 'yogurt', 'cream', 'egg', 'honey'],
+  halal: ['pork', 'bacon', 'ham', 'gelatine', 'wine', 'beer'],
+  kosher: ['pork', 'bacon', 'ham', 'prawn', 'shrimp', 'crab', 'lobster', 'mussel', 'gelatine']
+};
+
+export const CONFLICT_LABELS: Record<DietaryConflict, string> = {
+  ...Object.fromEntries(ALLERGENS.map(a => [a.id, a.label])) as Record<Allergen, string>,
+  vegetarian: 'Not vegetarian',
+  vegan: 'Not vegan',
+  halal: 'May not be halal',
+  kosher: 'May not be kosher'
+};
+
+// The parts of the profile an item can conflict with; vegan implies vegetarian.
+export function getProfileRules(profile: DietaryProfile): DietaryConflict[] {
+  const rules: DietaryConflict[] = [...profile.allergens];
+  if (profile.diet !== 'none') rules.push('vegetarian');
+  if (profile.diet === 'vegan') rules.push('vegan');
+  if (profile.religious !== 'none') rules.push(profile.religious);
+  return rules;
+}
+
+export function isProfileEmpty(profile: DietaryProfile): boolean {
+  return getProfileRules(profile).length === 0 && !profile.preferOrganic;
+}
+
+// Plain-English summary for prompts. Empty when there is nothing to say, so prompts
+// for users without a profile are unchanged.
+export function describeProfile(profile: DietaryProfile): string {
+  const parts: string[] = [];
+  if (profile.allergens.length) parts.push(`must avoid ${profile.allergens.join(', ')}`);
+  if (profile.diet !== 'none') parts.push(`is ${profile.diet}`);
+  if (profile.religious !== 'none') parts.push(`eats ${profile.religious} only`);
+  if (profile.preferOrganic) parts.push('prefers organic products');
+  return parts.length ? `The shopper ${parts.join('; ')}.` : '';
+}
+
+// Stable key for caching prices per profile; empty for the default profile so old
+// cache entries stay valid.
+export function getProfileKey(profile: DietaryProfile): string {
+  if (isProfileEmpty(profile)) return '';
+  return [...getProfileRules(profile)].sort().join(',') + (profile.preferOrganic ? '+organic' : '');
+}
+
+// "Gluten free", "dairy-free", "nut free" for the nuts rule.
+const isMarkedFree = (needle: string, rule: DietaryConflict) =>
+  new RegExp(`\\b${rule.replace(/s$/, '')}s?[- ]free\\b`).test(needle);
+
+export function findKeywordConflicts(itemName: string, profile: DietaryProfile): DietaryConflict[] {
+  const needle = itemName.toLowerCase();
+  // "Gluten free bread" or "vegan cheese" already says it's been thought about.
+  return getProfileRules(profile).filter(rule =>
+    !isMarkedFree(needle, rule) &&
+    !(rule === 'vegetarian' && /\b(vegetarian|vegan|veggie|plant)\b/.test(needle)) &&
+    !(rule === 'vegan' && /\b(vegan|plant)\b/.test(needle)) &&
+    !(rule === 'dairy' && /\b(vegan|oat|soya|almond) (milk|cheese|butter|yoghurt|yogurt)\b/.test(needle)) &&
+    CONFLICT_KEYWORDS[rule].some(k => matchesKeyword(needle, k)));
+}
+
+// Flags stored at refinement time are filtered to the current profile, since it may
+// have changed since; the keyword check covers items refined before it was set.
+export function getItemConflicts(item: ShoppingItem, profile: DietaryProfile): DietaryConflict[] {
+  const rules = getProfileRules(profile);
+  const flagged = (item.dietaryConflicts || []).filter(c => rules.includes(c));
+  return [...new Set([...flagged, ...findKeywordConflicts(item.name, profile)])];
+}
+
+export function normaliseConflicts(raw: unknown): DietaryConflict[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const known = Object.keys(CONFLICT_KEYWORDS);
+  return raw.map(r => String(r).toLowerCase().trim()).filter((r): r is DietaryConflict => known.includes(r));
+}
@@ -0,0 +1,109 @@
+import { DietaryProfile, LocationState, PriceOption } from "../types";
+import catalogue from "../fixtures/catalogue.json";
+import { PriceProvider, RefinedItem } from "./priceProvider";
+import { distanceBetween } from "./geo";
+import { parseQuantity, withUnitPrice } from "./units";
+import { parseRecipeText } from "./recipes";
+import { classifyItem } from "./categories";
+import { EMPTY_DIETARY_PROFILE, findKeywordConflicts } from "./dietary";
+
+// Offline provider backed by fixtures/catalogue.json. Answers are deterministic and
+// instant, so the whole flow can be developed and demoed without an API key.
+
+// Shops only "stock" an item if one of their branches is within this radius.
+const SEARCH_RADIUS_KM = 25;
+
+interface CatalogueProduct {
+  name: string;
+  emoji: string;
+  keywords: string[];
+  alternatives?: string[];
+  prices: Array<{ shop: string; price: number; packSize?: number; packUnit?: string }>;
+}
+
+const products = catalogue.products as CatalogueProduct[];
+
+function findProduct(itemName: string): CatalogueProduct | undefined {
+  const needle = itemName.toLowerCase();
+  return products.find(p => p.name.toLowerCase() === needle)
+    || products.find(p => p.keywords.some(k => needle.includes(k)));
+}
+
+function nearestBranch(shopName: string, location: LocationState) {
+  const shop = catalogue.shops.find(s => s.name.toLowerCase() === shopName.toLowerCase());
+  if (!shop) return null;
+  return shop.branches
+    .map(branch => ({ ...branch, distanceKm: distanceBetween(location, branch) }))
+    .sort((a, b) => a.distanceKm - b.distanceKm)[0] || null;
+}
+
+async function refineFixtureItem(itemName: string, profile: DietaryProfile = EMPTY_DIETARY_PROFILE): Promise<RefinedItem> {
+  const parsed = parseQuantity(itemName);
+  const product = findProduct(parsed.name);
+  return {
+    name: product ? product.name : parsed.name.replace(/\b\w/g, c => c.toUpperCase()),
+    emoji: product ? product.emoji : '🛒',
+    category: classifyItem(product ? product.name : parsed.name),
+    isVague: false,
+    alternatives: product?.alternatives,
+    dietaryConflicts: findKeywordConflicts(product ? product.name : parsed.name, profile),
+    quantity: parsed.quantity,
+    unit: parsed.unit
+  };
+}
+
+async function findFixturePrices(itemName: string, location: LocationState): Promise<PriceOption[]> {
+  const product = findProduct(itemName);
+  if (!product) return [];
+  return product.prices
+    .filter(p => {
+      const branch = nearestBranch(p.shop, location);
+      return branch && branch.distanceKm <= SEARCH_RADIUS_KM;
+    })
+    .map(p => withUnitPrice({ ...p, currency: catalogue.currency } as PriceOption));
+}
+
+export const fixtureProvider: PriceProvider = {
+  id: 'fixture',
+  label: 'Offline Fixtures',
+  requiresApiKey: false,
+
+  refineItem: refineFixtureItem,
+
+  async refineItems(itemNames: string[], profile?: DietaryProfile) {
+    return Promise.all(itemNames.map(name => refineFixtureItem(name, profile)));
+  },
+
+  async extractRecipes(text: string) {
+    return parseRecipeText(text);
+  },
+
+  findTopPriceOptions: findFixturePrices,
+
+  async findTopPriceOptionsBatch(itemNames: string[], location: LocationState) {
+    const results = await Promise.all(itemNames.map(name => findFixturePrices(name, location)));
+    return Object.fromEntries(itemNames.map((name, idx) => [name, results[idx]]));
+  },
+
+  async getPriceAtShop(itemName: string, shopName: string) {
+    const product = findProduct(itemName);
+    return product?.prices.find(p => p.shop === shopName)?.price || 0;
+  },
+
+  async getStoreBranchDetails(shopName: string, location: LocationState) {
+    const branch = nearestBranch(shopName, location);
+    if (!branch) return { branchName: shopName };
+    return {
+      branchName: branch.name,
+      address: branch.name,
+      placeId: `fixture:${branch.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+      coords: { lat: branch.lat, lng: branch.lng, address: branch.name }
+    };
+  },
+
+  async getCoordsFromLocation(locationString: string) {
+    const needle = locationString.trim().toLowerCase();
+    const place = catalogue.places.find(p => p.name.toLowerCase() === needle || p.aliases.some(a => needle.includes(a)));
+    return place ? { lat: place.lat, lng: place.lng, address: place.name } : null;
+  }
+};
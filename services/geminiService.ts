@@ -1,5 +1,13 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { LocationState, PriceOption, UnitSystem } from "../types";
+import { GenerateContentParameters, GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { DietaryConflict, DietaryProfile, GroceryCategory, LocationState, PriceOption, QuantityUnit } from "../types";
+import { normaliseUnit, withUnitPrice } from "./units";
+import { normaliseCurrencyCode } from "./currency";
+import { normaliseItemName } from "./priceCache";
+import { Recipe } from "./recipes";
+import { normaliseCategory } from "./categories";
+import { EMPTY_DIETARY_PROFILE, describeProfile, getProfileRules, normaliseConflicts } from "./dietary";
+import { RequestClass, RequestCancelledError, RequestOptions, pauseRequests, schedule } from "./requestScheduler";
+import { recordApiCall } from "./usageMeter";
 
 // Explicit global type for process.env to satisfy TypeScript build
 declare const process: {
@@ -22,41 +30,52 @@ export class GeminiError extends Error {
   }
 }
 
-// Stricter request queue to avoid 429 errors
-// Search grounding on the free tier is restricted to ~2 RPM (Requests Per Minute)
-// A 32-second delay ensures we never exceed 2 requests per 60 seconds.
-let requestQueue: Promise<any> = Promise.resolve();
-const BASE_DELAY = 3000; // 3 seconds base delay for non-search tasks
-const SEARCH_DELAY = 32000; // 32 seconds delay specifically for Search Grounding
-
-async function throttle(isSearch: boolean = false) {
-  const currentQueue = requestQueue;
-  let resolver: (value?: any) => void;
-  requestQueue = new Promise(resolve => { resolver = resolve; });
-  await currentQueue;
-  // If it's a search, we wait significantly longer to respect the 2 RPM limit
-  await new Promise(resolve => setTimeout(resolve, isSearch ? SEARCH_DELAY : BASE_DELAY));
-  resolver!();
+type Generate = (params: GenerateContentParameters) => Promise<GenerateContentResponse>;
+
+// The error body names the quota that ran out (e.g. GenerateRequestsPerDayPerProjectPerModel-FreeTier);
+// the wording is only a fallback for errors that don't carry one.
+function isDailyQuotaError(message: string): boolean {
+  const quotaIds = [...message.matchAll(/quotaId\\?"\s*:\s*\\?"([^"\\]+)/g)].map(m => m[1]);
+  if (quotaIds.length > 0) return quotaIds.some(id => /PerDay/i.test(id));
+  const lower = message.toLowerCase();
+  return lower.includes("daily") || lower.includes("per day");
 }
 
-async function handleApiCall<T>(call: () => Promise<T>, isSearch: boolean = false, retries = 1): Promise<T> {
+// Every call goes through the request scheduler, which paces each class of call on its
+// own bucket. Retries go back through it too, so they queue like everything else. Calls
+// that actually reach the API are counted by the usage meter, whether they work or not.
+async function handleApiCall<T>(call: (generate: Generate) => Promise<T>, requestClass: RequestClass = 'plain', options: RequestOptions = {}, retries = 1): Promise<T> {
+  const sent = { model: '', tokens: 0 };
+  const generate: Generate = async params => {
+    const ai = getAI();
+    sent.model = params.model;
+    const response = await ai.models.generateContent(params);
+    sent.tokens = response.usageMetadata?.totalTokenCount || 0;
+    return response;
+  };
+
   try {
-    await throttle(isSearch);
-    return await call();
+    const result = await schedule(requestClass, () => call(generate), options);
+    if (sent.model) recordApiCall({ requestClass, model: sent.model, ok: true, tokens: sent.tokens });
+    return result;
   } catch (error: any) {
-    console.error("Gemini API Error details:", error);
-    
     const status = error?.status || error?.error?.code || (error?.message?.includes('429') ? 429 : 500);
     const message = error?.message || "";
+    if (sent.model) recordApiCall({ requestClass, model: sent.model, ok: false, status, tokens: sent.tokens });
+
+    // A deleted item's request isn't an API failure; nothing to report or retry.
+    if (error instanceof RequestCancelledError) throw error;
+    if (options.signal?.aborted) throw new RequestCancelledError();
+    console.error("Gemini API Error details:", error);
 
     if (status === 429) {
-      const isExplicitlyDaily = message.toLowerCase().includes("daily") || message.toLowerCase().includes("per day");
+      const isExplicitlyDaily = isDailyQuotaError(message);
       
       if (retries > 0 && !isExplicitlyDaily) {
-        console.warn(`Rate limit hit. Retrying with longer backoff...`);
-        // Force a 60s wait on a 429 error
-        await new Promise(r => setTimeout(r, 60000));
-        return handleApiCall(call, isSearch, retries - 1);
+        console.warn(`Rate limit hit. Pausing ${requestClass} requests before retrying...`);
+        // Hold the whole class for 60s on a 429 error
+        pauseRequests(requestClass, 60000);
+        return handleApiCall(call, requestClass, options, retries - 1);
       }
       
       const friendlyMessage = isExplicitlyDaily 
@@ -68,7 +87,7 @@ async function handleApiCall<T>(call: () => Promise<T>, isSearch: boolean = fals
 
     if (status >= 500 && retries > 0) {
       await new Promise(r => setTimeout(r, 5000));
-      return handleApiCall(call, isSearch, retries - 1);
+      return handleApiCall(call, requestClass, options, retries - 1);
     }
     
     throw new GeminiError(message || "AI Service Error", status);
@@ -84,9 +103,8 @@ function getAI() {
 }
 
 export async function getCoordsFromLocation(locationString: string): Promise<LocationState | null> {
-  return handleApiCall(async () => {
-    const ai = getAI();
-    const response = await ai.models.generateContent({
+  return handleApiCall(async (generate) => {
+    const response = await generate({
       model: 'gemini-3-flash-preview',
       contents: `Find lat/lng for: "${locationString}". Return JSON only.`,
       config: {
@@ -108,50 +126,156 @@ export async function getCoordsFromLocation(locationString: string): Promise<Loc
     } catch (e) {
       return null;
     }
-  }, false);
+  }, 'plain');
 }
 
-export async function refineItem(itemName: string): Promise<{ 
-  name: string; 
-  emoji: string; 
-  isVague: boolean; 
+type RefinedItem = {
+  name: string;
+  emoji: string;
+  category?: GroceryCategory;
+  isVague: boolean;
   options?: string[];
   example?: string;
-}> {
-  return handleApiCall(async () => {
-    const ai = getAI();
-    const response = await ai.models.generateContent({
+  alternatives?: string[];
+  dietaryConflicts?: DietaryConflict[];
+  quantity?: number;
+  unit?: QuantityUnit;
+};
+
+const REFINE_RULES = `isVague=true if multiple types exist. category is the supermarket section, one of produce|bakery|meat|dairy|pantry|drinks|frozen|snacks|household|other. alternatives lists up to 3 cheaper variants of the same item a shopper could swap to (e.g. own-brand, value range, a cheaper cut), as plain item names. If the text includes an amount (e.g. "2kg potatoes", "3 x tins of beans", "6 eggs"), put the number in quantity and one of each|pack|kg|g|l|ml in unit, and leave it out of name.`;
+
+const REFINED_ITEM_PROPERTIES = {
+  name: { type: Type.STRING },
+  emoji: { type: Type.STRING },
+  category: { type: Type.STRING },
+  isVague: { type: Type.BOOLEAN },
+  options: { type: Type.ARRAY, items: { type: Type.STRING } },
+  example: { type: Type.STRING },
+  alternatives: { type: Type.ARRAY, items: { type: Type.STRING } },
+  dietaryConflicts: { type: Type.ARRAY, items: { type: Type.STRING } },
+  quantity: { type: Type.NUMBER },
+  unit: { type: Type.STRING }
+};
+
+// Options, examples and alternatives should all suit the shopper; dietaryConflicts flags
+// the ones the item as named might break, so the list can badge it.
+function dietaryRules(profile: DietaryProfile): string {
+  const description = describeProfile(profile);
+  if (!description) return '';
+  return `${description} Only suggest options, example and alternatives that fit. dietaryConflicts lists which of ${getProfileRules(profile).join('|') || 'none'} the item as named may break; leave it empty if none.`;
+}
+
+// Keeps priced products to ones the shopper can actually buy.
+function dietaryFilter(profile: DietaryProfile): string {
+  const description = describeProfile(profile);
+  return description ? ` ${description} Price the closest product that suits them (e.g. a gluten-free or organic version) rather than the standard one.` : '';
+}
+
+export async function refineItem(itemName: string, profile: DietaryProfile = EMPTY_DIETARY_PROFILE, options: RequestOptions = {}): Promise<RefinedItem> {
+  return handleApiCall(async (generate) => {
+    const response = await generate({
       model: 'gemini-3-flash-preview',
-      contents: `Analyze grocery item: "${itemName}". Return JSON: {name, emoji, isVague, options[], example}. isVague=true if multiple types exist.`,
+      contents: `Analyze grocery item: "${itemName}". Return JSON: {name, emoji, category, isVague, options[], example, alternatives[], dietaryConflicts[], quantity, unit}. ${REFINE_RULES} ${dietaryRules(profile)}`,
       config: {
+        abortSignal: options.signal,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            emoji: { type: Type.STRING },
-            isVague: { type: Type.BOOLEAN },
-            options: { type: Type.ARRAY, items: { type: Type.STRING } },
-            example: { type: Type.STRING }
-          },
+          properties: REFINED_ITEM_PROPERTIES,
           required: ["name", "emoji", "isVague"],
         },
       },
     });
-    return JSON.parse(response.text || "{}");
-  }, false);
+    const data = JSON.parse(response.text || "{}");
+    return { ...data, category: normaliseCategory(data.category), dietaryConflicts: normaliseConflicts(data.dietaryConflicts), unit: normaliseUnit(data.unit) };
+  }, 'plain', options);
+}
+
+// One call for a whole pasted list instead of one throttled call per line. Results are
+// keyed by the input's index; anything the model skipped comes back as null so the
+// caller can refine it on its own.
+export async function refineItems(itemNames: string[], profile: DietaryProfile = EMPTY_DIETARY_PROFILE, options: RequestOptions = {}): Promise<Array<RefinedItem | null>> {
+  return handleApiCall(async (generate) => {
+    const response = await generate({
+      model: 'gemini-3-flash-preview',
+      contents: `Analyze these grocery items: ${JSON.stringify(itemNames)}. Return a JSON array with one object per item: {index, name, emoji, category, isVague, options[], example, alternatives[], dietaryConflicts[], quantity, unit}, where index is the item's 0-based position in the input. ${REFINE_RULES} ${dietaryRules(profile)}`,
+      config: {
+        abortSignal: options.signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: { index: { type: Type.INTEGER }, ...REFINED_ITEM_PROPERTIES },
+            required: ["index", "name", "emoji", "isVague"],
+          },
+        },
+      },
+    });
+    const data: any[] = JSON.parse(response.text || "[]");
+    return itemNames.map((_, idx) => {
+      const match = data.find(d => d.index === idx);
+      if (!match) return null;
+      const { index, ...refined } = match;
+      return { ...refined, category: normaliseCategory(refined.category), dietaryConflicts: normaliseConflicts(refined.dietaryConflicts), unit: normaliseUnit(refined.unit) };
+    });
+  }, 'plain', options);
+}
+
+// Pulls the ingredients out of pasted recipes, or invents a typical recipe for each dish
+// in a meal plan. Quantities are returned as written per recipe; scaling is done locally.
+export async function extractRecipes(text: string): Promise<Recipe[]> {
+  return handleApiCall(async (generate) => {
+    const response = await generate({
+      model: 'gemini-3-flash-preview',
+      contents: `The text below is either one or more recipes, or a list of dishes (e.g. a meal plan for the week). Return a JSON array with one object per recipe or dish: {title, servings, ingredients[{name, quantity, unit}]}. For a dish with no recipe given, use the ingredients of a typical home recipe for it. servings is how many the recipe serves (assume 4 if unstated). Give each ingredient as a shoppable grocery item name, and express its amount in one of each|pack|kg|g|l|ml, converting spoons and cups to g or ml; leave quantity and unit out for store-cupboard items like salt, pepper or oil.\n\n${text}`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              title: { type: Type.STRING },
+              servings: { type: Type.NUMBER },
+              ingredients: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    name: { type: Type.STRING },
+                    quantity: { type: Type.NUMBER },
+                    unit: { type: Type.STRING }
+                  },
+                  required: ["name"],
+                },
+              },
+            },
+            required: ["title", "servings", "ingredients"],
+          },
+        },
+      },
+    });
+    const data: any[] = JSON.parse(response.text || "[]");
+    return data.map(recipe => ({
+      ...recipe,
+      ingredients: (recipe.ingredients || []).map((i: any) => ({ ...i, unit: normaliseUnit(i.unit) }))
+    }));
+  }, 'plain');
 }
 
 export async function findTopPriceOptions(
   itemName: string, 
-  location: LocationState
+  location: LocationState,
+  profile: DietaryProfile = EMPTY_DIETARY_PROFILE,
+  options: RequestOptions = {}
 ): Promise<PriceOption[]> {
-  return handleApiCall(async () => {
-    const ai = getAI();
-    const response = await ai.models.generateContent({
+  return handleApiCall(async (generate) => {
+    const response = await generate({
       model: 'gemini-3-flash-preview',
-      contents: `Find current prices for "${itemName}" near ${location.lat}, ${location.lng} in major local physical supermarkets. Return ONLY a JSON array of objects with {shop, price, currency}. Try to find at least 3 different shops if possible.`,
+      contents: `Find current prices for "${itemName}" near ${location.lat}, ${location.lng} in major local physical supermarkets. Return ONLY a JSON array of objects with {shop, price, currency, packSize, packUnit}, where currency is an ISO 4217 code and packSize and packUnit describe the pack that price is for (packUnit one of kg|g|l|ml|each, e.g. 500 and "g", or 6 and "each"). Try to find at least 3 different shops if possible.${dietaryFilter(profile)}`,
       config: {
+        abortSignal: options.signal,
         tools: [{ googleSearch: {} }],
       },
     });
@@ -159,25 +283,65 @@ export async function findTopPriceOptions(
     const text = response.text || "[]";
     const jsonMatch = text.match(/\[.*\]/s);
     try {
-      return JSON.parse(jsonMatch ? jsonMatch[0] : text);
+      const options: PriceOption[] = JSON.parse(jsonMatch ? jsonMatch[0] : text);
+      // Search results quote currencies every which way ("£", "GBP", "pounds"); store ISO codes.
+      return options.map(o => withUnitPrice({ ...o, currency: normaliseCurrencyCode(o.currency, o.currency) }));
     } catch (e) {
       console.error("Failed to parse search prices:", text);
       return [];
     }
-  }, true);
+  }, 'search', options);
 }
 
+// Prices several items with a single grounded search, sharing one search token.
+// The result is keyed by the names passed in; items the search didn't cover are left out.
+export async function findTopPriceOptionsBatch(
+  itemNames: string[],
+  location: LocationState,
+  profile: DietaryProfile = EMPTY_DIETARY_PROFILE,
+  options: RequestOptions = {}
+): Promise<Record<string, PriceOption[]>> {
+  return handleApiCall(async (generate) => {
+    const response = await generate({
+      model: 'gemini-3-flash-preview',
+      contents: `Find current prices for each of these items near ${location.lat}, ${location.lng} in major local physical supermarkets: ${JSON.stringify(itemNames)}. Return ONLY a JSON object whose keys are the item names exactly as given and whose values are arrays of {shop, price, currency, packSize, packUnit}, where currency is an ISO 4217 code and packSize and packUnit describe the pack that price is for (packUnit one of kg|g|l|ml|each, e.g. 500 and "g", or 6 and "each"). Try to find at least 3 different shops per item if possible.${dietaryFilter(profile)}`,
+      config: {
+        abortSignal: options.signal,
+        tools: [{ googleSearch: {} }],
+      },
+    });
+
+    const text = response.text || "{}";
+    const jsonMatch = text.match(/\{.*\}/s);
+    try {
+      const data: Record<string, PriceOption[]> = JSON.parse(jsonMatch ? jsonMatch[0] : text);
+      const entries = Object.entries(data);
+      const result: Record<string, PriceOption[]> = {};
+      itemNames.forEach(name => {
+        // The model sometimes changes the case or punctuation of a key.
+        const match = entries.find(([key]) => normaliseItemName(key) === normaliseItemName(name));
+        if (match && Array.isArray(match[1]) && match[1].length > 0) {
+          result[name] = match[1].map(o => withUnitPrice({ ...o, currency: normaliseCurrencyCode(o.currency, o.currency) }));
+        }
+      });
+      return result;
+    } catch (e) {
+      console.error("Failed to parse batched search prices:", text);
+      return {};
+    }
+  }, 'search', options);
+}
+
+// Structured branch lookup via Maps grounding. Distances are worked out locally from
+// the coordinates, so nothing here depends on the model's units or phrasing.
 export async function getStoreBranchDetails(
   shopName: string,
-  location: LocationState,
-  unitSystem: UnitSystem = 'metric'
-): Promise<{ branchName: string; distance: string }> {
-  return handleApiCall(async () => {
-    const ai = getAI();
-    const unit = unitSystem === 'metric' ? "km" : "mi";
-    const response = await ai.models.generateContent({
+  location: LocationState
+): Promise<{ branchName: string; address?: string; placeId?: string; coords?: LocationState }> {
+  return handleApiCall(async (generate) => {
+    const response = await generate({
       model: 'gemini-2.5-flash',
-      contents: `Nearest ${shopName} to ${location.lat}, ${location.lng}. Return BRANCH: [name] and DISTANCE: [value] ${unit}.`,
+      contents: `Nearest ${shopName} to ${location.lat}, ${location.lng}. Return ONLY a JSON object {branchName, address, lat, lng, placeId} for that branch, where lat and lng are its coordinates in decimal degrees and placeId is its Google Maps place ID.`,
       config: {
         tools: [{ googleMaps: {} }],
         toolConfig: {
@@ -186,15 +350,26 @@ export async function getStoreBranchDetails(
       },
     });
 
-    const text = response.text || "";
-    const branchMatch = text.match(/BRANCH:\s*(.*)/i);
-    const distanceMatch = text.match(/DISTANCE:\s*(.*)/i);
-
-    return {
-      branchName: branchMatch ? branchMatch[1].trim() : `${shopName}`,
-      distance: distanceMatch ? distanceMatch[1].trim() : "Nearby"
-    };
-  }, false);
+    const text = response.text || "{}";
+    const jsonMatch = text.match(/\{.*\}/s);
+    // The grounding source is the place the model actually looked at; prefer its ID.
+    const groundedPlace = response.candidates?.[0]?.groundingMetadata?.groundingChunks?.find(c => c.maps?.placeId)?.maps;
+    try {
+      const data = JSON.parse(jsonMatch ? jsonMatch[0] : text);
+      const lat = Number(data.lat);
+      const lng = Number(data.lng);
+      const hasCoords = Number.isFinite(lat) && Number.isFinite(lng) && !(lat === 0 && lng === 0);
+      return {
+        branchName: data.branchName || groundedPlace?.title || shopName,
+        address: data.address || undefined,
+        placeId: groundedPlace?.placeId?.replace(/^places\//, '') || data.placeId || undefined,
+        coords: hasCoords ? { lat, lng, address: data.address || undefined } : undefined
+      };
+    } catch (e) {
+      console.error("Failed to parse branch details:", text);
+      return { branchName: groundedPlace?.title || shopName, placeId: groundedPlace?.placeId?.replace(/^places\//, '') };
+    }
+  }, 'maps');
 }
 
 export async function getPriceAtShop(
@@ -202,9 +377,8 @@ export async function getPriceAtShop(
   shopName: string,
   location: LocationState
 ): Promise<number> {
-  return handleApiCall(async () => {
-    const ai = getAI();
-    const response = await ai.models.generateContent({
+  return handleApiCall(async (generate) => {
+    const response = await generate({
       model: 'gemini-3-flash-preview',
       contents: `Exact current price of "${itemName}" at ${shopName} near ${location.lat}, ${location.lng}. Return ONLY the price as a number, e.g. 2.99.`,
       config: {
@@ -214,5 +388,5 @@ export async function getPriceAtShop(
     const text = response.text || "0";
     const priceMatch = text.match(/\d+(\.\d+)?/);
     return priceMatch ? parseFloat(priceMatch[0]) : 0;
-  }, true);
+  }, 'search');
 }
\ No newline at end of file
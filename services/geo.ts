@@ -0,0 +1,18 @@
+import { LocationState, UnitSystem } from "../types";
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_MILE = 1.609344;
+
+// Great-circle (haversine) distance between two points, in the user's unit system.
+export function distanceBetween(a: LocationState, b: LocationState, unitSystem: UnitSystem = 'metric'): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  const km = 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+  return unitSystem === 'metric' ? km : km / KM_PER_MILE;
+}
+
+export function formatDistance(distance: number, unitSystem: UnitSystem = 'metric'): string {
+  return `${distance.toFixed(1)} ${unitSystem === 'metric' ? 'km' : 'mi'}`;
+}
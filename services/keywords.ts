@@ -0,0 +1,13 @@
+const patterns = new Map<string, RegExp>();
+
+// Whole-word match that also accepts a plural, so "egg" finds "eggs" but not "veggie",
+// and "oil" finds "olive oil" but not "foil".
+export function matchesKeyword(text: string, keyword: string): boolean {
+  let pattern = patterns.get(keyword);
+  if (!pattern) {
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    pattern = new RegExp(`\\b${escaped}(?:s|es)?\\b`, 'i');
+    patterns.set(keyword, pattern);
+  }
+  return pattern.test(text);
+}
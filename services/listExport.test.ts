@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { RankedShop, ShoppingItem, ShoppingList } from '../types';
+import { exportCsv } from './listExport';
+import { parseImport } from './listImport';
+
+const ctx = { base: 'GBP', rates: { GBP: 1 } };
+
+const item: ShoppingItem = {
+  id: '1',
+  originalName: 'milk',
+  name: 'Milk',
+  emoji: '🥛',
+  status: 'ready',
+  topOptions: [{ shop: 'Aldi', price: 1.2, currency: 'GBP' }],
+  cheapestShop: 'Aldi',
+  price: 1.2,
+  currency: 'GBP'
+};
+
+const list: ShoppingList = { id: 'l', name: 'Weekly', items: [item], createdAt: 0, cachedRankedShops: null, lastCalculationFingerprint: '' };
+
+const strategyAt = (shopName: string): RankedShop => ({
+  shopName,
+  branchName: shopName,
+  distance: '1 km',
+  numericDistance: 1,
+  totalPrice: 1.5,
+  weight: 1,
+  itemsAtBest: 0,
+  isClosest: true,
+  isCheapest: false,
+  isWithinPreference: true,
+  receipt: [{ itemName: 'Milk', price: 1.5, quantity: 1, unit: 'each', lineTotal: 1.5, isCheapestHere: false }],
+  savingsDiff: [],
+  potentialSavings: 0
+});
+
+describe('exportCsv', () => {
+  it('writes the shop price when the shop has an option', () => {
+    const [, row] = exportCsv(list, null, ctx).split('\n');
+    expect(row).toBe('Milk,milk,🥛,,,Aldi,1.2,GBP,,,1.20');
+  });
+
+  it("leaves the price blank rather than borrowing another shop's", () => {
+    const [, row] = exportCsv(list, strategyAt('Tesco'), ctx).split('\n');
+    expect(row).toBe('Milk,milk,🥛,,,Tesco,,,,,1.50');
+  });
+
+  it('round-trips through the CSV importer', () => {
+    const { items } = parseImport(exportCsv(list, null, ctx), 'list.csv', 'GBP');
+    expect(items[0].topOptions).toEqual([expect.objectContaining({ shop: 'Aldi', price: 1.2, currency: 'GBP' })]);
+  });
+});
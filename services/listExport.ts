@@ -0,0 +1,152 @@
+import { RankedShop, ShoppingItem, ShoppingList } from "../types";
+import { CurrencyContext, formatMoney } from "./currency";
+import { formatQuantity, getQuantity } from "./units";
+import { getCheapestLineCost } from "./budget";
+
+export type ExportFormat = 'json' | 'csv' | 'markdown' | 'html';
+
+export const EXPORT_VERSION = 1;
+
+// One row per item, costed either at the chosen strategy's store or at the item's
+// cheapest shop. Amounts are in the user's currency.
+interface ExportLine {
+  item: ShoppingItem;
+  shop: string;
+  lineTotal?: number;
+}
+
+function getExportLines(items: ShoppingItem[], strategy: RankedShop | null, ctx: CurrencyContext): ExportLine[] {
+  return items.map(item => {
+    if (item.status !== 'ready') return { item, shop: 'Unpriced' };
+    const receiptLine = strategy?.receipt.find(r => r.itemName === item.name);
+    if (receiptLine) {
+      return { item, shop: receiptLine.shopName || strategy!.shopName, lineTotal: receiptLine.lineTotal };
+    }
+    return { item, shop: item.cheapestShop || 'Unknown', lineTotal: getCheapestLineCost(item, ctx) };
+  });
+}
+
+function groupByShop(lines: ExportLine[]): Array<[string, ExportLine[]]> {
+  const groups: Record<string, ExportLine[]> = {};
+  lines.forEach(line => { (groups[line.shop] = groups[line.shop] || []).push(line); });
+  return Object.entries(groups);
+}
+
+const describe = (item: ShoppingItem) => `${formatQuantity(getQuantity(item), item.unit)} ${item.name}`;
+
+export function exportJson(list: ShoppingList, strategy: RankedShop | null): string {
+  return JSON.stringify({
+    version: EXPORT_VERSION,
+    name: list.name,
+    exportedAt: new Date().toISOString(),
+    items: list.items.map(({ id, isSelected, error, ...item }) => item),
+    ...(strategy ? { strategy } : {})
+  }, null, 2);
+}
+
+export const CSV_COLUMNS = ['name', 'original', 'emoji', 'quantity', 'unit', 'shop', 'price', 'currency', 'packSize', 'packUnit', 'lineTotal'];
+
+function csvCell(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// price/currency/pack describe the shelf price at the shop; lineTotal is in the user's currency.
+export function exportCsv(list: ShoppingList, strategy: RankedShop | null, ctx: CurrencyContext): string {
+  const rows = getExportLines(list.items, strategy, ctx).map(({ item, shop, lineTotal }) => {
+    // The item's own price is its cheapest shop's; any other shop without an option stays blank.
+    const option = item.topOptions?.find(o => o.shop === shop) ?? (shop === item.cheapestShop ? item : undefined);
+    return [
+      item.name,
+      item.originalName,
+      item.emoji,
+      item.quantity,
+      item.unit,
+      item.status === 'ready' ? shop : undefined,
+      option?.price,
+      option?.currency,
+      option?.packSize,
+      option?.packUnit,
+      lineTotal?.toFixed(2)
+    ].map(csvCell).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+export function exportMarkdown(list: ShoppingList, strategy: RankedShop | null, ctx: CurrencyContext): string {
+  const lines = getExportLines(list.items, strategy, ctx);
+  const out = [`# ${list.name}`, ''];
+  if (strategy) {
+    out.push(`Strategy: **${strategy.shopName}** (${strategy.branchName}), ${formatMoney(strategy.totalPrice, ctx.base)}`, '');
+  }
+  groupByShop(lines).forEach(([shop, group]) => {
+    out.push(`## ${shop}`, '');
+    group.forEach(({ item, lineTotal }) => {
+      out.push(`- [ ] ${item.emoji} ${describe(item)}${lineTotal !== undefined ? ` — ${formatMoney(lineTotal, ctx.base)}` : ''}`);
+    });
+    out.push('');
+  });
+  return out.join('\n');
+}
+
+const escapeHtml = (text: string) => text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+
+// A standalone page laid out for paper: one checklist per store, nothing interactive.
+export function exportPrintableHtml(list: ShoppingList, strategy: RankedShop | null, ctx: CurrencyContext): string {
+  const lines = getExportLines(list.items, strategy, ctx);
+  const total = lines.reduce((sum, l) => sum + (l.lineTotal || 0), 0);
+  const sections = groupByShop(lines).map(([shop, group]) => `
+    <section>
+      <h2>${escapeHtml(shop)}</h2>
+      <ul>
+        ${group.map(({ item, lineTotal }) => `<li><span class="box"></span><span class="name">${escapeHtml(`${item.emoji} ${describe(item)}`)}</span><span class="price">${lineTotal !== undefined ? escapeHtml(formatMoney(lineTotal, ctx.base)) : ''}</span></li>`).join('\n        ')}
+      </ul>
+    </section>`).join('');
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(list.name)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 640px; margin: 2rem auto; color: #0f172a; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: #64748b; font-size: 0.85rem; margin-bottom: 1.5rem; }
+  h2 { font-size: 1rem; text-transform: uppercase; letter-spacing: 0.05em; border-bottom: 2px solid #0f172a; padding-bottom: 0.25rem; }
+  section { break-inside: avoid; margin-bottom: 1.5rem; }
+  ul { list-style: none; padding: 0; margin: 0; }
+  li { display: flex; align-items: center; gap: 0.75rem; padding: 0.4rem 0; border-bottom: 1px solid #e2e8f0; }
+  .box { width: 14px; height: 14px; border: 2px solid #0f172a; border-radius: 3px; flex-shrink: 0; }
+  .name { flex: 1; }
+  .price { font-family: ui-monospace, monospace; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(list.name)}</h1>
+  <p class="meta">${strategy ? `${escapeHtml(strategy.shopName)} · ` : ''}${list.items.length} items · ${escapeHtml(formatMoney(total, ctx.base))} · ${new Date().toLocaleDateString()}</p>
+  ${sections}
+</body>
+</html>`;
+}
+
+export function downloadFile(content: string, filename: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function openPrintable(html: string) {
+  const win = window.open('', '_blank');
+  if (!win) {
+    console.error("Print window was blocked");
+    return;
+  }
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+}
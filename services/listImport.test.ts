@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { parseImport } from './listImport';
+
+describe('parseImport', () => {
+  it('reads CSV headers in any case', () => {
+    const csv = 'Name,Shop,Price,Currency,PackSize,PackUnit\nMilk,Tesco,1.50,GBP,2,l\n';
+    const { items, errors } = parseImport(csv, 'list.csv', 'GBP');
+    expect(errors).toEqual([]);
+    expect(items).toHaveLength(1);
+    expect(items[0].name).toBe('Milk');
+    expect(items[0].status).toBe('ready');
+    expect(items[0].topOptions?.[0]).toMatchObject({ shop: 'Tesco', price: 1.5, packSize: 2, packUnit: 'l' });
+  });
+
+  it('merges rows for the same item into one item priced at several shops', () => {
+    const csv = 'name,shop,price\nEggs,Tesco,2\neggs,Aldi,1.8\nBread,,\n';
+    const { items } = parseImport(csv, 'list.csv', 'GBP');
+    expect(items.map(i => i.name)).toEqual(['Eggs', 'Bread']);
+    expect(items[0].topOptions?.map(o => o.shop)).toEqual(['Tesco', 'Aldi']);
+    expect(items[1].status).toBe('pending');
+  });
+
+  it('rejects a CSV without a name column', () => {
+    expect(parseImport('item,price\nMilk,1\n', 'list.csv', 'GBP').errors).toHaveLength(1);
+  });
+
+  it('reads a bare JSON array of items', () => {
+    const { items, errors } = parseImport('[{"name":"Rice"},{"price":2}]', 'list.json', 'EUR');
+    expect(items.map(i => i.name)).toEqual(['Rice']);
+    expect(errors).toEqual(['Item 2 has no name.']);
+  });
+});
@@ -0,0 +1,149 @@
+import { PriceOption, ShoppingItem } from "../types";
+import { normaliseCurrencyCode } from "./currency";
+import { normaliseUnit, withUnitPrice } from "./units";
+
+// Rebuilds items from a JSON export (ours, or a bare array of items) or a CSV with at
+// least a "name" column. Records that already carry prices come back 'ready' so they
+// are not searched again; everything else is 'pending' and goes through the pipeline.
+export type ImportedItem = Omit<ShoppingItem, 'id'>;
+
+export interface ImportResult {
+  name?: string;
+  items: ImportedItem[];
+  errors: string[];
+}
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+const toNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+function toPriceOption(raw: any, fallbackCurrency: string): PriceOption | null {
+  const price = toNumber(raw?.price);
+  if (!raw || !isText(raw.shop) || price === undefined || price < 0) return null;
+  const packSize = toNumber(raw.packSize);
+  return withUnitPrice({
+    shop: raw.shop.trim(),
+    price,
+    currency: normaliseCurrencyCode(raw.currency, fallbackCurrency),
+    packSize: packSize && packSize > 0 ? packSize : undefined,
+    packUnit: normaliseUnit(raw.packUnit)
+  });
+}
+
+export function parseItemRecord(raw: any, fallbackCurrency: string): ImportedItem | null {
+  const name = isText(raw?.name) ? raw.name.trim() : isText(raw?.originalName) ? raw.originalName.trim() : null;
+  if (!name) return null;
+  const quantity = toNumber(raw.quantity);
+  const topOptions = (Array.isArray(raw.topOptions) ? raw.topOptions : [])
+    .map((o: any) => toPriceOption(o, fallbackCurrency))
+    .filter((o: PriceOption | null): o is PriceOption => !!o);
+  // Exports from elsewhere may only carry the winning shop and price.
+  if (topOptions.length === 0) {
+    const single = toPriceOption({ ...raw, shop: raw.cheapestShop ?? raw.shop }, fallbackCurrency);
+    if (single) topOptions.push(single);
+  }
+  return {
+    originalName: isText(raw.originalName) ? raw.originalName.trim() : name,
+    name,
+    emoji: isText(raw.emoji) ? raw.emoji : '🛒',
+    quantity: quantity && quantity > 0 ? quantity : undefined,
+    unit: normaliseUnit(raw.unit),
+    alternatives: Array.isArray(raw.alternatives) ? raw.alternatives.filter(isText) : undefined,
+    topOptions: topOptions.length > 0 ? topOptions : undefined,
+    pricedAt: toNumber(raw.pricedAt),
+    status: topOptions.length > 0 ? 'ready' : 'pending'
+  };
+}
+
+function importJson(text: string, fallbackCurrency: string): ImportResult {
+  const data = JSON.parse(text);
+  const records: unknown[] | null = Array.isArray(data) ? data : Array.isArray(data?.items) ? data.items : null;
+  if (!records) return { items: [], errors: ["JSON must be an exported list or an array of items."] };
+  const result: ImportResult = { name: isText(data?.name) ? data.name : undefined, items: [], errors: [] };
+  records.forEach((raw, idx) => {
+    const item = parseItemRecord(raw, fallbackCurrency);
+    if (item) result.items.push(item);
+    else result.errors.push(`Item ${idx + 1} has no name.`);
+  });
+  return result;
+}
+
+// RFC 4180-ish: quoted cells may contain commas, newlines and doubled quotes.
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (c === '"') inQuotes = false;
+      else cell += c;
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === ',') {
+      row.push(cell); cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell); rows.push(row); row = []; cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  if (cell !== '' || row.length > 0) { row.push(cell); rows.push(row); }
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+// Headers are matched case-insensitively, so "Name" or "PACKSIZE" work as well as ours.
+const CSV_KEYS: Record<string, string> = {
+  original: 'originalName',
+  originalname: 'originalName',
+  cheapestshop: 'cheapestShop',
+  packsize: 'packSize',
+  packunit: 'packUnit',
+  linetotal: 'lineTotal'
+};
+
+const getCsvKey = (column: string) => CSV_KEYS[column.toLowerCase()] ?? column.toLowerCase();
+
+// Rows with the same name are one item priced at several shops.
+function importCsv(text: string, fallbackCurrency: string): ImportResult {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header || []).map(h => h.trim());
+  if (!columns.some(c => getCsvKey(c) === 'name')) {
+    return { items: [], errors: ["CSV needs a header row with a \"name\" column."] };
+  }
+  const result: ImportResult = { items: [], errors: [] };
+  const byName = new Map<string, ImportedItem>();
+  rows.forEach((cells, idx) => {
+    const record: Record<string, string> = {};
+    columns.forEach((col, c) => { record[getCsvKey(col)] = (cells[c] || '').trim(); });
+    const item = parseItemRecord(record, fallbackCurrency);
+    if (!item) {
+      result.errors.push(`Row ${idx + 2} has no name.`);
+      return;
+    }
+    const existing = byName.get(item.name.toLowerCase());
+    if (existing && item.topOptions) {
+      existing.topOptions = [...(existing.topOptions || []), ...item.topOptions];
+      existing.status = 'ready';
+    } else if (!existing) {
+      byName.set(item.name.toLowerCase(), item);
+      result.items.push(item);
+    }
+  });
+  return result;
+}
+
+export function parseImport(text: string, filename: string, fallbackCurrency: string): ImportResult {
+  try {
+    const looksLikeJson = filename.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+    return looksLikeJson ? importJson(text, fallbackCurrency) : importCsv(text, fallbackCurrency);
+  } catch (e) {
+    console.error("Import failed:", e);
+    return { items: [], errors: ["The file couldn't be read. Is it a SmartShop JSON or CSV export?"] };
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { looksLikeList, splitBulkInput } from './listParser';
+
+describe('splitBulkInput', () => {
+  it('splits on commas, semicolons and "and"', () => {
+    expect(splitBulkInput('milk, eggs and bread; butter & jam')).toEqual(['milk', 'eggs', 'bread', 'butter', 'jam']);
+  });
+
+  it('strips bullets, numbers and checkboxes from pasted notes', () => {
+    expect(splitBulkInput('- apples\n2. pears\n[x] plums\n• 2kg potatoes\n\n')).toEqual(['apples', 'pears', 'plums', '2kg potatoes']);
+  });
+
+  it('keeps a single phrase with "and" as one item', () => {
+    expect(splitBulkInput('fish and chips')).toEqual(['fish and chips']);
+    expect(splitBulkInput('- salt & vinegar crisps\n- bread')).toEqual(['salt & vinegar crisps', 'bread']);
+  });
+});
+
+describe('looksLikeList', () => {
+  it('only treats multi-line or comma separated text as a list', () => {
+    expect(looksLikeList('milk\neggs')).toBe(true);
+    expect(looksLikeList('milk, eggs')).toBe(true);
+    expect(looksLikeList('macaroni and cheese')).toBe(false);
+    expect(looksLikeList('oat milk\n')).toBe(false);
+  });
+});
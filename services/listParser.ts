@@ -0,0 +1,21 @@
+// Leading list markers people paste from notes apps: bullets, "1." / "2)", checkboxes.
+const LIST_MARKER = /^(?:[-*•·+]\s*)?(?:\d+[.)]\s+)?(?:\[[ xX]?\]\s*)?/;
+
+// Pastes worth splitting: more than one line, or a comma/semicolon separated run.
+export function looksLikeList(text: string): boolean {
+  return /\r?\n|[,;]/.test(text.trim());
+}
+
+// Turns a pasted block ("milk, eggs and bread", a bulleted note, a numbered list)
+// into one entry per item. "and" only separates items in a comma list, so a single
+// phrase like "fish and chips" stays whole.
+export function splitBulkInput(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .flatMap(line => {
+      const entries = line.split(/[,;]/);
+      return entries.length > 1 ? entries.flatMap(entry => entry.split(/\s+(?:and|&)\s+/i)) : entries;
+    })
+    .map(entry => entry.replace(LIST_MARKER, '').trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,68 @@
+import { GroceryCategory, ShoppingItem, SortMode } from "../types";
+import { CurrencyContext } from "./currency";
+import { rankPriceOptions } from "./units";
+import { getCheapestLineCost } from "./budget";
+import { classifyItem, getCategory, getCategoryRank } from "./categories";
+
+export interface ItemGroup {
+  key: string;
+  label?: string; // No label means a flat list with no header
+  emoji?: string;
+  items: ShoppingItem[];
+}
+
+export const SORT_MODES: Array<{ id: SortMode; label: string }> = [
+  { id: 'category', label: 'Aisle' },
+  { id: 'price', label: 'Price' },
+  { id: 'shop', label: 'Shop' },
+  { id: 'added', label: 'Newest' }
+];
+
+const UNPRICED_GROUP = 'Not priced yet';
+
+export function getItemCategory(item: ShoppingItem): GroceryCategory {
+  return item.category || classifyItem(item.name);
+}
+
+function getCheapestShop(item: ShoppingItem, ctx: CurrencyContext): string | undefined {
+  return rankPriceOptions(item.topOptions || [], item, ctx)[0]?.shop || item.cheapestShop;
+}
+
+// Lists are stored in the order items were added, so every mode is a view over that.
+export function groupItems(
+  items: ShoppingItem[],
+  mode: SortMode,
+  ctx: CurrencyContext,
+  categoryOrder?: GroceryCategory[]
+): ItemGroup[] {
+  if (mode === 'added') return [{ key: 'all', items: [...items].reverse() }];
+
+  if (mode === 'price') {
+    // Unpriced items have no cost to compare yet, so they wait at the bottom.
+    const priced = items.filter(i => i.status === 'ready');
+    const rest = items.filter(i => i.status !== 'ready');
+    priced.sort((a, b) => getCheapestLineCost(a, ctx) - getCheapestLineCost(b, ctx));
+    return [{ key: 'all', items: [...priced, ...rest] }];
+  }
+
+  const groups: Record<string, ItemGroup> = {};
+  items.forEach(item => {
+    if (mode === 'shop') {
+      const shop = item.status === 'ready' ? getCheapestShop(item, ctx) : undefined;
+      const label = shop || UNPRICED_GROUP;
+      (groups[label] = groups[label] || { key: label, label, emoji: shop ? '🏪' : '⏳', items: [] }).items.push(item);
+    } else {
+      const category = getCategory(getItemCategory(item));
+      (groups[category.id] = groups[category.id] || { key: category.id, label: category.name, emoji: category.emoji, items: [] }).items.push(item);
+    }
+  });
+
+  const sorted = Object.values(groups);
+  if (mode === 'shop') {
+    // Biggest basket first, as that's the shop most of the list is heading to.
+    return sorted.sort((a, b) =>
+      Number(a.key === UNPRICED_GROUP) - Number(b.key === UNPRICED_GROUP) || b.items.length - a.items.length || a.key.localeCompare(b.key));
+  }
+  return sorted.sort((a, b) =>
+    getCategoryRank(a.key as GroceryCategory, categoryOrder) - getCategoryRank(b.key as GroceryCategory, categoryOrder));
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { ShoppingItem } from '../types';
+import { GPS_LOCATION_ID, createSavedLocation, getLocationLabel, needsRepricing, resolveLocation } from './locations';
+
+const home = { lat: 51.5, lng: -0.1 };
+const nextDoor = { lat: 51.501, lng: -0.1 };
+const brighton = { lat: 50.82, lng: -0.14 };
+const gps = { lat: 51.45, lng: -0.2 };
+const saved = [createSavedLocation('Holiday let', 'Brighton', brighton)];
+
+const item = (changes: Partial<ShoppingItem>): ShoppingItem => ({ id: '1', originalName: 'milk', name: 'Milk', emoji: '🥛', status: 'ready', ...changes });
+
+describe('resolveLocation', () => {
+  it('uses the chosen saved location, falling back to GPS', () => {
+    expect(resolveLocation(saved[0].id, saved, gps)).toEqual(brighton);
+    expect(resolveLocation(GPS_LOCATION_ID, saved, gps)).toEqual(gps);
+    expect(resolveLocation('deleted', saved, gps)).toEqual(gps);
+    expect(getLocationLabel(saved[0].id, saved)).toBe('Holiday let');
+    expect(getLocationLabel(GPS_LOCATION_ID, saved)).toBe('Current Location');
+  });
+});
+
+describe('needsRepricing', () => {
+  it('re-prices ready items after a big move only', () => {
+    expect(needsRepricing(item({ pricedLocation: home }), brighton)).toBe(true);
+    expect(needsRepricing(item({ pricedLocation: home }), nextDoor)).toBe(false);
+    expect(needsRepricing(item({ pricedLocation: home, status: 'searching' }), brighton)).toBe(false);
+  });
+
+  it('treats items without a priced location as priced at the previous location', () => {
+    expect(needsRepricing(item({}), brighton)).toBe(false);
+    expect(needsRepricing(item({}), brighton, home)).toBe(true);
+    expect(needsRepricing(item({}), nextDoor, home)).toBe(false);
+  });
+});
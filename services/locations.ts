@@ -0,0 +1,33 @@
+import { LocationState, SavedLocation, ShoppingItem } from "../types";
+import { distanceBetween } from "./geo";
+
+export const GPS_LOCATION_ID = 'gps';
+
+// Search results are for shops near where the search was run; past this, a different
+// set of branches is nearest and yesterday's prices no longer describe them.
+export const REPRICE_DISTANCE_KM = 5;
+
+export function findSavedLocation(saved: SavedLocation[], id?: string): SavedLocation | undefined {
+  return saved.find(l => l.id === id);
+}
+
+// GPS is only used when it is the chosen location, or when the chosen one was deleted.
+export function resolveLocation(id: string | undefined, saved: SavedLocation[], gps: LocationState | null): LocationState | null {
+  if (id && id !== GPS_LOCATION_ID) return findSavedLocation(saved, id)?.coords || gps;
+  return gps;
+}
+
+export function getLocationLabel(id: string | undefined, saved: SavedLocation[]): string {
+  return findSavedLocation(saved, id)?.name || 'Current Location';
+}
+
+export function createSavedLocation(name: string, query: string, coords: LocationState): SavedLocation {
+  return { id: Math.random().toString(36).substring(7), name, query, coords };
+}
+
+// Items priced before pricedLocation was recorded, or brought in by an import or a
+// share link, have none; they are taken to be priced at assumedPricedAt instead.
+export function needsRepricing(item: ShoppingItem, location: LocationState, assumedPricedAt?: LocationState | null): boolean {
+  const pricedAt = item.pricedLocation || assumedPricedAt;
+  return item.status === 'ready' && !!pricedAt && distanceBetween(pricedAt, location) > REPRICE_DISTANCE_KM;
+}
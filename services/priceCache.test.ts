@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearPriceCache, getCachedPrices, getLocationCell, normaliseItemName, setCachedPrices } from './priceCache';
+
+const HOUR = 60 * 60 * 1000;
+const here = { lat: 51.5012, lng: -0.1412 };
+const options = [{ shop: 'Tesco', price: 1, currency: 'GBP' }];
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {} });
+  clearPriceCache();
+});
+afterEach(() => { vi.useRealTimers(); });
+
+describe('priceCache', () => {
+  it('keys items by normalised name and ~1km location cell', () => {
+    expect(normaliseItemName('  Semi-Skimmed   MILK! ')).toBe('semi skimmed milk');
+    expect(getLocationCell(here)).toBe('51.50,-0.14');
+    setCachedPrices('fixture', 'Semi-skimmed milk', here, options, HOUR);
+    expect(getCachedPrices('fixture', 'semi skimmed milk', { lat: 51.5034, lng: -0.1398 }, HOUR)?.options).toEqual(options);
+    expect(getCachedPrices('fixture', 'semi skimmed milk', { lat: 51.52, lng: -0.14 }, HOUR)).toBeNull();
+    expect(getCachedPrices('gemini', 'semi skimmed milk', here, HOUR)).toBeNull();
+  });
+
+  it('expires entries older than the TTL', () => {
+    setCachedPrices('fixture', 'milk', here, options, HOUR);
+    vi.advanceTimersByTime(HOUR - 1);
+    expect(getCachedPrices('fixture', 'milk', here, HOUR)).not.toBeNull();
+    vi.advanceTimersByTime(2);
+    expect(getCachedPrices('fixture', 'milk', here, HOUR)).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+import { LocationState, PriceOption, PriceProviderId } from "../types";
+
+// Search results are expensive (one 32s search slot each), so we keep them per item
+// and per ~1km location cell until they are older than the user's TTL.
+const STORAGE_KEY = "smartshop:price-cache";
+const CELL_PRECISION = 2; // Decimal places of lat/lng, roughly a 1km grid
+
+export interface CachedPrices {
+  options: PriceOption[];
+  fetchedAt: number;
+}
+
+let memoryCache: Record<string, CachedPrices> | null = null;
+
+function readCache(): Record<string, CachedPrices> {
+  if (memoryCache) return memoryCache;
+  try {
+    memoryCache = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch (e) {
+    console.error("Failed to read price cache:", e);
+    memoryCache = {};
+  }
+  return memoryCache!;
+}
+
+function writeCache(cache: Record<string, CachedPrices>) {
+  memoryCache = cache;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cache));
+  } catch (e) {
+    console.error("Failed to save price cache:", e);
+  }
+}
+
+export function normaliseItemName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9\s]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+export function getLocationCell(location: LocationState): string {
+  return `${location.lat.toFixed(CELL_PRECISION)},${location.lng.toFixed(CELL_PRECISION)}`;
+}
+
+// The profile key is empty without a dietary profile, which keeps older entries valid.
+function cacheKey(providerId: PriceProviderId, itemName: string, location: LocationState, profileKey: string) {
+  const key = `${providerId}|${normaliseItemName(itemName)}|${getLocationCell(location)}`;
+  return profileKey ? `${key}|${profileKey}` : key;
+}
+
+export function getCachedPrices(
+  providerId: PriceProviderId,
+  itemName: string,
+  location: LocationState,
+  ttlMs: number,
+  profileKey: string = ''
+): CachedPrices | null {
+  const entry = readCache()[cacheKey(providerId, itemName, location, profileKey)];
+  if (!entry || Date.now() - entry.fetchedAt > ttlMs) return null;
+  return entry;
+}
+
+export function setCachedPrices(
+  providerId: PriceProviderId,
+  itemName: string,
+  location: LocationState,
+  options: PriceOption[],
+  ttlMs: number,
+  profileKey: string = ''
+): CachedPrices {
+  const now = Date.now();
+  const entry = { options, fetchedAt: now };
+  // Drop anything already expired so the store doesn't grow forever.
+  const cache = Object.fromEntries(
+    Object.entries(readCache()).filter(([, e]) => now - e.fetchedAt <= ttlMs)
+  );
+  cache[cacheKey(providerId, itemName, location, profileKey)] = entry;
+  writeCache(cache);
+  return entry;
+}
+
+export function clearPriceCache() {
+  writeCache({});
+}
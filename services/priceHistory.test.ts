@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getItemHistory, getPriceStats, isUnusuallyHigh, recordPriceObservations } from './priceHistory';
+
+const here = { lat: 51.5, lng: -0.1 };
+const ctx = { base: 'GBP', rates: { GBP: 1.17, EUR: 1 } };
+const record = (itemName: string, ...prices: number[]) =>
+  prices.forEach(price => recordPriceObservations(itemName, [{ shop: 'Tesco', price, currency: 'GBP' }], here));
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {} });
+});
+
+describe('getPriceStats', () => {
+  it('summarises the values', () => {
+    expect(getPriceStats([1, 2, 3])).toEqual({ min: 1, avg: 2, max: 3, count: 3 });
+    expect(getPriceStats([])).toBeNull();
+  });
+});
+
+describe('getItemHistory', () => {
+  it('groups observations by normalised item name', () => {
+    record('Oat Milk', 1.5);
+    record('oat milk!', 1.6);
+    expect(getItemHistory('OAT MILK').map(o => o.price)).toEqual([1.5, 1.6]);
+  });
+});
+
+describe('isUnusuallyHigh', () => {
+  it("flags a price well above the item's average", () => {
+    record('Butter', 2, 2, 2);
+    expect(isUnusuallyHigh('Butter', 2.3, undefined, undefined, ctx)).toBe(false);
+    expect(isUnusuallyHigh('Butter', 2.5, undefined, undefined, ctx)).toBe(true);
+  });
+
+  it('needs a few observations before flagging anything', () => {
+    record('Saffron', 1, 1);
+    expect(isUnusuallyHigh('Saffron', 5, undefined, undefined, ctx)).toBe(false);
+  });
+
+  it('compares history in the base currency', () => {
+    recordPriceObservations('Brie', [{ shop: 'Carrefour', price: 2.34, currency: 'EUR' }], here);
+    record('Brie', 2, 2);
+    expect(isUnusuallyHigh('Brie', 2.1, undefined, undefined, ctx)).toBe(false);
+  });
+});
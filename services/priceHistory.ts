@@ -0,0 +1,130 @@
+import { LocationState, PriceOption, UnitPriceBasis } from "../types";
+import { normaliseItemName } from "./priceCache";
+import { convertAmount, CurrencyContext } from "./currency";
+
+// Every fresh price we see is kept so staples can be tracked week to week, long after
+// the list that priced them has been cleared.
+const STORAGE_KEY = "smartshop:price-history";
+const MAX_OBSERVATIONS = 2000;
+// A price this far above the item's own average is flagged as unusually high.
+const HIGH_PRICE_RATIO = 1.2;
+const MIN_OBSERVATIONS_FOR_FLAG = 3;
+// A price paid at the till counts for this many searched ones in averages.
+const CONFIRMED_WEIGHT = 3;
+
+export interface PriceObservation {
+  itemKey: string;
+  itemName: string;
+  shop: string;
+  price: number;
+  currency: string;
+  unitPrice?: number;
+  unitPriceBasis?: UnitPriceBasis;
+  timestamp: number;
+  location: { lat: number; lng: number };
+  // Prices confirmed at the till after a trip, rather than found by a search.
+  isConfirmed?: boolean;
+}
+
+export interface PriceStats {
+  min: number;
+  avg: number;
+  max: number;
+  count: number;
+}
+
+let memoryHistory: PriceObservation[] | null = null;
+
+function readHistory(): PriceObservation[] {
+  if (memoryHistory) return memoryHistory;
+  try {
+    memoryHistory = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+  } catch (e) {
+    console.error("Failed to read price history:", e);
+    memoryHistory = [];
+  }
+  return memoryHistory!;
+}
+
+function writeHistory(history: PriceObservation[]) {
+  memoryHistory = history;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+  } catch (e) {
+    console.error("Failed to save price history:", e);
+  }
+}
+
+export function recordPriceObservations(itemName: string, options: PriceOption[], location: LocationState) {
+  if (options.length === 0) return;
+  const timestamp = Date.now();
+  const observations: PriceObservation[] = options.map(o => ({
+    itemKey: normaliseItemName(itemName),
+    itemName,
+    shop: o.shop,
+    price: o.price,
+    currency: o.currency,
+    unitPrice: o.unitPrice,
+    unitPriceBasis: o.unitPriceBasis,
+    timestamp,
+    location: { lat: location.lat, lng: location.lng }
+  }));
+  writeHistory([...readHistory(), ...observations].slice(-MAX_OBSERVATIONS));
+}
+
+// What was actually paid, as a shelf price per pack like the searched observations.
+export function recordConfirmedPrice(itemName: string, option: PriceOption, location: LocationState) {
+  writeHistory([...readHistory(), {
+    itemKey: normaliseItemName(itemName),
+    itemName,
+    shop: option.shop,
+    price: option.price,
+    currency: option.currency,
+    unitPrice: option.unitPrice,
+    unitPriceBasis: option.unitPriceBasis,
+    timestamp: Date.now(),
+    location: { lat: location.lat, lng: location.lng },
+    isConfirmed: true
+  }].slice(-MAX_OBSERVATIONS));
+}
+
+export function getItemHistory(itemName: string): PriceObservation[] {
+  const key = normaliseItemName(itemName);
+  return readHistory().filter(o => o.itemKey === key).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export const getObservationWeight = (o: PriceObservation) => o.isConfirmed ? CONFIRMED_WEIGHT : 1;
+
+// weights, when given, line up with values and only affect the average.
+export function getPriceStats(values: number[], weights?: number[]): PriceStats | null {
+  if (values.length === 0) return null;
+  const weightOf = (i: number) => weights?.[i] ?? 1;
+  const totalWeight = values.reduce((a, _, i) => a + weightOf(i), 0);
+  return {
+    min: Math.min(...values),
+    avg: values.reduce((a, v, i) => a + v * weightOf(i), 0) / totalWeight,
+    max: Math.max(...values),
+    count: values.length
+  };
+}
+
+// Compares on unit price when both sides have one on the same basis, so a switch
+// from a 500g to a 1kg pack isn't mistaken for a price rise. The price passed in is
+// in the context's base currency; history is converted to match. Confirmed prices
+// weigh more, and count as several observations towards the minimum.
+export function isUnusuallyHigh(
+  itemName: string,
+  price: number,
+  unitPrice: number | undefined,
+  basis: UnitPriceBasis | undefined,
+  ctx: CurrencyContext
+): boolean {
+  const history = getItemHistory(itemName);
+  const useUnit = unitPrice !== undefined && !!basis;
+  const comparable = useUnit ? history.filter(o => o.unitPriceBasis === basis && o.unitPrice !== undefined) : history;
+  const weights = comparable.map(getObservationWeight);
+  if (weights.reduce((a, w) => a + w, 0) < MIN_OBSERVATIONS_FOR_FLAG) return false;
+  const stats = getPriceStats(comparable.map(o => convertAmount(useUnit ? o.unitPrice! : o.price, o.currency, ctx)), weights)!;
+  const value = useUnit ? unitPrice! : price;
+  return value > stats.avg * HIGH_PRICE_RATIO;
+}
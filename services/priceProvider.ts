@@ -0,0 +1,66 @@
+import { DietaryConflict, DietaryProfile, GroceryCategory, LocationState, PriceOption, PriceProviderId, QuantityUnit } from "../types";
+import * as gemini from "./geminiService";
+import { fixtureProvider } from "./fixtureProvider";
+import { Recipe } from "./recipes";
+import { RequestOptions } from "./requestScheduler";
+
+export interface RefinedItem {
+  name: string;
+  emoji: string;
+  category?: GroceryCategory;
+  isVague: boolean;
+  options?: string[];
+  example?: string;
+  alternatives?: string[];
+  dietaryConflicts?: DietaryConflict[];
+  quantity?: number;
+  unit?: QuantityUnit;
+}
+
+// Coordinates are optional because a lookup can find the shop but not pin it down;
+// callers treat a branch without them as an unknown distance away.
+export interface BranchDetails {
+  branchName: string;
+  address?: string;
+  placeId?: string;
+  coords?: LocationState;
+}
+
+// Everything the app needs to turn typed text into priced, located items. The app
+// only talks to this interface; which implementation it gets is an AppSettings choice.
+// Request options only matter to providers that queue their calls; others ignore them.
+export interface PriceProvider {
+  id: PriceProviderId;
+  label: string;
+  requiresApiKey: boolean;
+  refineItem(itemName: string, profile?: DietaryProfile, options?: RequestOptions): Promise<RefinedItem>;
+  // Batched refine for pasted lists; null entries were missed and need refineItem.
+  refineItems(itemNames: string[], profile?: DietaryProfile, options?: RequestOptions): Promise<Array<RefinedItem | null>>;
+  extractRecipes(text: string): Promise<Recipe[]>;
+  findTopPriceOptions(itemName: string, location: LocationState, profile?: DietaryProfile, options?: RequestOptions): Promise<PriceOption[]>;
+  // Keyed by the names passed in; anything missing needs findTopPriceOptions.
+  findTopPriceOptionsBatch(itemNames: string[], location: LocationState, profile?: DietaryProfile, options?: RequestOptions): Promise<Record<string, PriceOption[]>>;
+  getPriceAtShop(itemName: string, shopName: string, location: LocationState): Promise<number>;
+  getStoreBranchDetails(shopName: string, location: LocationState): Promise<BranchDetails>;
+  getCoordsFromLocation(locationString: string): Promise<LocationState | null>;
+}
+
+export const geminiProvider: PriceProvider = {
+  id: 'gemini',
+  label: 'Gemini (Live)',
+  requiresApiKey: true,
+  refineItem: gemini.refineItem,
+  refineItems: gemini.refineItems,
+  extractRecipes: gemini.extractRecipes,
+  findTopPriceOptions: gemini.findTopPriceOptions,
+  findTopPriceOptionsBatch: gemini.findTopPriceOptionsBatch,
+  getPriceAtShop: gemini.getPriceAtShop,
+  getStoreBranchDetails: gemini.getStoreBranchDetails,
+  getCoordsFromLocation: gemini.getCoordsFromLocation
+};
+
+export const PRICE_PROVIDERS: PriceProvider[] = [geminiProvider, fixtureProvider];
+
+export function getPriceProvider(id: PriceProviderId): PriceProvider {
+  return PRICE_PROVIDERS.find(p => p.id === id) || geminiProvider;
+}
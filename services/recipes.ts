@@ -0,0 +1,94 @@
+import { QuantityUnit } from "../types";
+import { normaliseItemName } from "./priceCache";
+import { formatQuantity, parseQuantity } from "./units";
+import { splitBulkInput } from "./listParser";
+
+// Recipes come back from the provider as written, each with its own serving count.
+// Scaling and de-duplicating happen here so the numbers don't depend on the model
+// doing arithmetic.
+
+export interface RecipeIngredient {
+  name: string;
+  quantity?: number;
+  unit?: QuantityUnit;
+}
+
+export interface Recipe {
+  title: string;
+  servings: number;
+  ingredients: RecipeIngredient[];
+}
+
+export interface ShoppingIngredient {
+  key: string;
+  name: string;
+  quantity?: number;
+  unit?: QuantityUnit;
+  recipes: string[];
+}
+
+const DEFAULT_SERVINGS = 4;
+
+// Weights and volumes are summed in g and ml, then shown in kg and l once they get big.
+const SMALL_UNITS: Partial<Record<QuantityUnit, { unit: QuantityUnit; factor: number }>> = {
+  kg: { unit: 'g', factor: 1000 },
+  l: { unit: 'ml', factor: 1000 }
+};
+
+function toSmallUnit(quantity: number, unit: QuantityUnit) {
+  const small = SMALL_UNITS[unit];
+  return small ? { quantity: quantity * small.factor, unit: small.unit } : { quantity, unit };
+}
+
+function toDisplayUnit(quantity: number, unit: QuantityUnit) {
+  if (unit === 'g' && quantity >= 1000) return { quantity: quantity / 1000, unit: 'kg' as QuantityUnit };
+  if (unit === 'ml' && quantity >= 1000) return { quantity: quantity / 1000, unit: 'l' as QuantityUnit };
+  return { quantity, unit };
+}
+
+// Counted things are rounded up: nobody buys 1.5 onions.
+function roundForShopping(quantity: number, unit: QuantityUnit) {
+  if (unit === 'each' || unit === 'pack') return Math.ceil(quantity - 1e-9);
+  return Math.round(quantity * 100) / 100;
+}
+
+export function scaleAndMergeRecipes(recipes: Recipe[], servings: number): ShoppingIngredient[] {
+  const merged = new Map<string, ShoppingIngredient>();
+  recipes.forEach(recipe => {
+    const factor = servings / (recipe.servings > 0 ? recipe.servings : DEFAULT_SERVINGS);
+    recipe.ingredients.forEach(ingredient => {
+      const scaled = ingredient.quantity && ingredient.unit
+        ? toSmallUnit(ingredient.quantity * factor, ingredient.unit)
+        : null;
+      // Same name and same kind of unit is the same shopping line.
+      const key = `${normaliseItemName(ingredient.name)}|${scaled?.unit ?? ''}`;
+      const existing = merged.get(key);
+      if (existing) {
+        if (scaled) existing.quantity = (existing.quantity || 0) + scaled.quantity;
+        if (!existing.recipes.includes(recipe.title)) existing.recipes.push(recipe.title);
+      } else {
+        merged.set(key, { key, name: ingredient.name, quantity: scaled?.quantity, unit: scaled?.unit, recipes: [recipe.title] });
+      }
+    });
+  });
+  return Array.from(merged.values()).map(i => {
+    if (i.quantity === undefined || !i.unit) return i;
+    const display = toDisplayUnit(i.quantity, i.unit);
+    return { ...i, quantity: roundForShopping(display.quantity, display.unit), unit: display.unit };
+  });
+}
+
+export function describeIngredient(ingredient: ShoppingIngredient): string {
+  return ingredient.quantity && ingredient.unit
+    ? `${formatQuantity(ingredient.quantity, ingredient.unit)} ${ingredient.name}`
+    : ingredient.name;
+}
+
+// Offline fallback: one recipe per paste, one ingredient per line, "Serves 4" if stated.
+export function parseRecipeText(text: string): Recipe[] {
+  const servingsMatch = text.match(/\b(?:serves|servings?:?)\s*(\d+)/i);
+  const ingredients = splitBulkInput(text)
+    .filter(line => !/\b(?:serves|servings?)\b/i.test(line))
+    .map(line => parseQuantity(line));
+  return [{ title: 'Pasted Recipe', servings: servingsMatch ? parseInt(servingsMatch[1]) : DEFAULT_SERVINGS, ingredients }];
+}
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RequestCancelledError, schedule, whenAllAborted } from './requestScheduler';
+
+beforeEach(() => { vi.useFakeTimers(); });
+afterEach(() => { vi.useRealTimers(); });
+
+describe('schedule', () => {
+  it('sends higher-priority requests first once the bucket is empty', async () => {
+    const started: string[] = [];
+    const run = (name: string) => () => { started.push(name); return Promise.resolve(name); };
+    // Plain calls allow a burst of three; the rest wait for tokens.
+    const burst = ['a', 'b', 'c'].map(name => schedule('plain', run(name)));
+    const low = schedule('plain', run('low'), { priority: 'low' });
+    const high = schedule('plain', run('high'), { priority: 'high' });
+    await Promise.all(burst);
+    expect(started).toEqual(['a', 'b', 'c']);
+    await vi.runAllTimersAsync();
+    await Promise.all([low, high]);
+    expect(started.slice(3)).toEqual(['high', 'low']);
+  });
+
+  it('drops a queued request when its signal aborts', async () => {
+    const controller = new AbortController();
+    const run = vi.fn(() => Promise.resolve());
+    // Search allows one call at a time, so the second waits in the queue.
+    const first = schedule('search', () => Promise.resolve());
+    const queued = schedule('search', run, { signal: controller.signal });
+    controller.abort();
+    await first;
+    await expect(queued).rejects.toBeInstanceOf(RequestCancelledError);
+    await vi.runAllTimersAsync();
+    expect(run).not.toHaveBeenCalled();
+  });
+});
+
+describe('whenAllAborted', () => {
+  it('only aborts once every signal has', () => {
+    const a = new AbortController();
+    const b = new AbortController();
+    const shared = whenAllAborted([a.signal, b.signal])!;
+    a.abort();
+    expect(shared.aborted).toBe(false);
+    b.abort();
+    expect(shared.aborted).toBe(true);
+  });
+});
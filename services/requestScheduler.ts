@@ -0,0 +1,168 @@
+// Rate limiting for API calls. Each call class has its own token bucket, so a cheap
+// refine never waits behind a grounded search, and within a class the queue is ordered
+// by priority, then arrival. Jobs carry the ids of the items they're for, which is how
+// the list shows each item's place in the queue and how long it has left to wait.
+export type RequestClass = 'search' | 'maps' | 'plain';
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+export const PRIORITY_ORDER: RequestPriority[] = ['high', 'normal', 'low'];
+
+export interface RequestOptions {
+  priority?: RequestPriority;
+  signal?: AbortSignal;
+  tags?: string[]; // Item ids the request is for
+}
+
+export interface QueuePosition {
+  requestClass: RequestClass;
+  position: number; // 1-based, within its class
+  readyAt: number; // Estimated time the request will be sent
+}
+
+export class RequestCancelledError extends Error {
+  constructor() {
+    super("Request cancelled");
+    this.name = "RequestCancelledError";
+  }
+}
+
+interface Bucket {
+  capacity: number;
+  refillMs: number; // Time to earn back one token
+  tokens: number;
+  updatedAt: number; // Tokens are earned from here on; in the future while paused
+}
+
+interface Job {
+  priority: RequestPriority;
+  tags: string[];
+  start: () => void;
+  cancel: () => void;
+}
+
+// Search grounding on the free tier is restricted to ~2 RPM, so one token every 32s keeps
+// us under it. Maps grounding and plain calls are allowed a small burst, then ~15-20 RPM.
+const BUCKETS: Record<RequestClass, Bucket> = {
+  search: { capacity: 1, refillMs: 32000, tokens: 1, updatedAt: Date.now() },
+  maps: { capacity: 2, refillMs: 3000, tokens: 2, updatedAt: Date.now() },
+  plain: { capacity: 3, refillMs: 4000, tokens: 3, updatedAt: Date.now() }
+};
+
+const queues: Record<RequestClass, Job[]> = { search: [], maps: [], plain: [] };
+const timers: Partial<Record<RequestClass, ReturnType<typeof setTimeout>>> = {};
+const listeners = new Set<() => void>();
+
+function refill(bucket: Bucket, now: number) {
+  if (now <= bucket.updatedAt) return;
+  bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.updatedAt) / bucket.refillMs);
+  bucket.updatedAt = now;
+}
+
+// When the job at this index would get a token, if nothing ahead of it is cancelled.
+function estimateReadyAt(requestClass: RequestClass, index: number, now: number): number {
+  const bucket = BUCKETS[requestClass];
+  const needed = index + 1 - bucket.tokens;
+  const from = Math.max(now, bucket.updatedAt);
+  return needed <= 0 ? from : from + needed * bucket.refillMs;
+}
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+function pump(requestClass: RequestClass) {
+  const bucket = BUCKETS[requestClass];
+  const queue = queues[requestClass];
+  const now = Date.now();
+  refill(bucket, now);
+  clearTimeout(timers[requestClass]);
+  timers[requestClass] = undefined;
+
+  let started = false;
+  while (queue.length > 0 && now >= bucket.updatedAt && bucket.tokens >= 1) {
+    bucket.tokens -= 1;
+    queue.shift()!.start();
+    started = true;
+  }
+  if (queue.length > 0) {
+    timers[requestClass] = setTimeout(() => pump(requestClass), Math.max(0, estimateReadyAt(requestClass, 0, now) - now));
+  }
+  if (started) notify();
+}
+
+export function schedule<T>(requestClass: RequestClass, run: () => Promise<T>, options: RequestOptions = {}): Promise<T> {
+  const { priority = 'normal', signal, tags = [] } = options;
+  if (signal?.aborted) return Promise.reject(new RequestCancelledError());
+
+  return new Promise<T>((resolve, reject) => {
+    const queue = queues[requestClass];
+    const onAbort = () => job.cancel();
+    const job: Job = {
+      priority,
+      tags,
+      start: () => {
+        signal?.removeEventListener('abort', onAbort);
+        run().then(resolve, reject);
+      },
+      cancel: () => {
+        const idx = queue.indexOf(job);
+        if (idx === -1) return;
+        queue.splice(idx, 1);
+        reject(new RequestCancelledError());
+        notify();
+      }
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    // Behind everything of the same or higher priority, ahead of anything lower.
+    const rank = PRIORITY_ORDER.indexOf(priority);
+    const at = queue.findIndex(j => PRIORITY_ORDER.indexOf(j.priority) > rank);
+    queue.splice(at === -1 ? queue.length : at, 0, job);
+    notify();
+    pump(requestClass);
+  });
+}
+
+// After a 429 the whole class waits, rather than each caller sleeping on its own. One
+// call goes out as soon as the pause is over, then the usual refill rate applies.
+export function pauseRequests(requestClass: RequestClass, ms: number) {
+  const bucket = BUCKETS[requestClass];
+  bucket.tokens = 1;
+  bucket.updatedAt = Math.max(bucket.updatedAt, Date.now() + ms);
+  notify();
+  pump(requestClass);
+}
+
+// Keyed by item id. An item with more than one request waiting shows its earliest.
+export function getQueuePositions(): Record<string, QueuePosition> {
+  const now = Date.now();
+  const positions: Record<string, QueuePosition> = {};
+  (Object.keys(queues) as RequestClass[]).forEach(requestClass => {
+    queues[requestClass].forEach((job, idx) => {
+      const readyAt = estimateReadyAt(requestClass, idx, now);
+      job.tags.forEach(tag => {
+        if (!positions[tag] || readyAt < positions[tag].readyAt) {
+          positions[tag] = { requestClass, position: idx + 1, readyAt };
+        }
+      });
+    });
+  });
+  return positions;
+}
+
+export function subscribeToQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+// A call shared by several items is only worth cancelling once every one of them is.
+export function whenAllAborted(signals: Array<AbortSignal | undefined>): AbortSignal | undefined {
+  if (signals.length === 0 || signals.some(s => !s)) return undefined;
+  const controller = new AbortController();
+  const check = () => {
+    if (signals.every(s => s!.aborted)) controller.abort();
+  };
+  signals.forEach(s => s!.addEventListener('abort', check, { once: true }));
+  check();
+  return controller.signal;
+}
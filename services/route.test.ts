@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { buildDirectionsUrl, planRoute } from './route';
+
+const home = { lat: 0, lng: 0 };
+const stop = (branchName: string, lng?: number, placeId?: string) => ({ branchName, coords: lng === undefined ? undefined : { lat: 0, lng }, placeId });
+
+describe('planRoute', () => {
+  it('visits stops in the shortest round-trip order', () => {
+    // On a line, Near is passed on the way to or from Far, so the best loop is no longer
+    // than visiting Back and Far alone; any order that doubles back is longer.
+    const route = planRoute(home, [stop('Far', 0.2), stop('Back', -0.1), stop('Near', 0.1)]);
+    expect(route.stops).toHaveLength(3);
+    expect(route.totalDistance).toBeCloseTo(planRoute(home, [stop('Back', -0.1), stop('Far', 0.2)]).totalDistance);
+    expect(route.legs).toHaveLength(4);
+    expect(route.isComplete).toBe(true);
+  });
+
+  it('puts stops without coordinates last and marks the route incomplete', () => {
+    const route = planRoute(home, [stop('Unknown'), stop('Near', 0.1)]);
+    expect(route.stops.map(s => s.branchName)).toEqual(['Near', 'Unknown']);
+    expect(route.isComplete).toBe(false);
+  });
+});
+
+describe('buildDirectionsUrl', () => {
+  it('only adds place ids when every stop has a real one', () => {
+    expect(buildDirectionsUrl(home, [stop('A', 0.1, 'p1'), stop('B', 0.2, 'p2')])).toContain('waypoint_place_ids=p1%7Cp2');
+    expect(buildDirectionsUrl(home, [stop('A', 0.1, 'p1'), stop('B', 0.2, 'fixture:b')])).not.toContain('waypoint_place_ids');
+  });
+});
@@ -0,0 +1,87 @@
+import { LocationState, UnitSystem } from "../types";
+import { distanceBetween } from "./geo";
+
+// Split trips have two or three stops, so every order can be tried; the nearest-
+// neighbour fallback only exists so a longer route can't hang the tab.
+const MAX_EXACT_STOPS = 7;
+
+export interface RouteStop {
+  branchName: string;
+  coords?: LocationState;
+  placeId?: string;
+}
+
+export interface PlannedRoute<T extends RouteStop> {
+  stops: T[]; // In visiting order; stops that couldn't be located go last
+  legs: number[]; // Distance of each leg, from the start through every stop and back
+  totalDistance: number; // Round trip, in the requested unit
+  isComplete: boolean; // False when some stops had no coordinates and aren't counted
+}
+
+function permutations(indices: number[]): number[][] {
+  if (indices.length <= 1) return [indices];
+  return indices.flatMap((head, i) =>
+    permutations([...indices.slice(0, i), ...indices.slice(i + 1)]).map(tail => [head, ...tail]));
+}
+
+function routeLength(points: LocationState[], origin: LocationState, unit: UnitSystem): number[] {
+  const path = [origin, ...points, origin];
+  return path.slice(1).map((point, i) => distanceBetween(path[i], point, unit));
+}
+
+function nearestNeighbourOrder(points: LocationState[], origin: LocationState): number[] {
+  const remaining = points.map((_, i) => i);
+  const order: number[] = [];
+  let at = origin;
+  while (remaining.length) {
+    remaining.sort((a, b) => distanceBetween(at, points[a]) - distanceBetween(at, points[b]));
+    const next = remaining.shift()!;
+    order.push(next);
+    at = points[next];
+  }
+  return order;
+}
+
+// Shortest order to visit every stop from the start and come back to it.
+export function planRoute<T extends RouteStop>(origin: LocationState, stops: T[], unit: UnitSystem = 'metric'): PlannedRoute<T> {
+  const located = stops.filter(s => s.coords);
+  const unlocated = stops.filter(s => !s.coords);
+  const points = located.map(s => s.coords!);
+
+  let order: number[];
+  if (points.length <= MAX_EXACT_STOPS) {
+    order = permutations(points.map((_, i) => i))
+      .map(candidate => ({ candidate, length: routeLength(candidate.map(i => points[i]), origin, unit).reduce((a, b) => a + b, 0) }))
+      .reduce((best, next) => next.length < best.length ? next : best).candidate;
+  } else {
+    order = nearestNeighbourOrder(points, origin);
+  }
+
+  const legs = points.length ? routeLength(order.map(i => points[i]), origin, unit) : [];
+  return {
+    stops: [...order.map(i => located[i]), ...unlocated],
+    legs,
+    totalDistance: legs.reduce((a, b) => a + b, 0),
+    isComplete: unlocated.length === 0
+  };
+}
+
+const formatPoint = (p: LocationState) => `${p.lat.toFixed(6)},${p.lng.toFixed(6)}`;
+// Fixture branches carry made-up IDs that Google would reject.
+const isRealPlaceId = (placeId?: string) => !!placeId && !placeId.startsWith('fixture:');
+
+// One Google Maps directions link for the whole trip, ending back where it started.
+export function buildDirectionsUrl(origin: LocationState, stops: RouteStop[]): string {
+  const params = new URLSearchParams({
+    api: '1',
+    origin: formatPoint(origin),
+    destination: formatPoint(origin),
+    travelmode: 'driving',
+    waypoints: stops.map(s => s.coords ? formatPoint(s.coords) : s.branchName).join('|')
+  });
+  // Place IDs only count if every waypoint has one, since they are matched by position.
+  if (stops.every(s => isRealPlaceId(s.placeId))) {
+    params.set('waypoint_place_ids', stops.map(s => s.placeId).join('|'));
+  }
+  return `https://www.google.com/maps/dir/?${params.toString()}`;
+}
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PriceOption } from '../types';
+import { PriceProvider } from './priceProvider';
+import { fixtureProvider } from './fixtureProvider';
+import { GeminiError } from './geminiService';
+import { EMPTY_DIETARY_PROFILE } from './dietary';
+import { RequestCancelledError } from './requestScheduler';
+import { searchPrices } from './searchBatcher';
+
+// Queues are per provider, location cell and profile, so each test searches somewhere new.
+const london = { lat: 51.5, lng: -0.1 };
+const leeds = { lat: 53.8, lng: -1.55 };
+const york = { lat: 53.96, lng: -1.08 };
+const bristol = { lat: 51.45, lng: -2.59 };
+const leicester = { lat: 52.63, lng: -1.13 };
+const hull = { lat: 53.74, lng: -0.33 };
+const derby = { lat: 52.92, lng: -1.48 };
+
+const optionsFor = (itemName: string, source: string): PriceOption[] => [{ shop: `${itemName} ${source}`, price: 1, currency: 'GBP' }];
+
+function fakeProvider(batchMisses: string[] = []): PriceProvider {
+  return {
+    ...fixtureProvider,
+    findTopPriceOptions: vi.fn(async (itemName: string) => optionsFor(itemName, 'single')),
+    findTopPriceOptionsBatch: vi.fn(async (itemNames: string[]) => Object.fromEntries(
+      itemNames.filter(name => !batchMisses.includes(name)).map(name => [name, optionsFor(name, 'batch')])))
+  };
+}
+
+function providerWithFailingBatch(error: unknown): PriceProvider {
+  return { ...fakeProvider(), findTopPriceOptionsBatch: vi.fn(async () => { throw error; }) };
+}
+
+beforeEach(() => { vi.useFakeTimers(); });
+afterEach(() => { vi.useRealTimers(); });
+
+describe('searchPrices', () => {
+  it('sends searches that arrive together as one batch', async () => {
+    const provider = fakeProvider();
+    const results = Promise.all(['milk', 'eggs', 'bread'].map(name => searchPrices(provider, name, london, 2, EMPTY_DIETARY_PROFILE)));
+    await vi.runAllTimersAsync();
+    expect((await results).map(r => r[0].shop)).toEqual(['milk batch', 'eggs batch', 'bread single']);
+    expect(provider.findTopPriceOptionsBatch).toHaveBeenCalledWith(['milk', 'eggs'], london, EMPTY_DIETARY_PROFILE, expect.anything());
+  });
+
+  it('searches anything the batch missed on its own', async () => {
+    const provider = fakeProvider(['eggs']);
+    const results = Promise.all(['milk', 'eggs'].map(name => searchPrices(provider, name, leeds, 5, EMPTY_DIETARY_PROFILE)));
+    await vi.runAllTimersAsync();
+    expect((await results).map(r => r[0].shop)).toEqual(['milk batch', 'eggs single']);
+  });
+
+  it('skips batching with a batch size of one', async () => {
+    const provider = fakeProvider();
+    expect((await searchPrices(provider, 'milk', york, 1, EMPTY_DIETARY_PROFILE))[0].shop).toBe('milk single');
+    expect(provider.findTopPriceOptionsBatch).not.toHaveBeenCalled();
+  });
+
+  it('falls back to one search per item when a batch fails', async () => {
+    const provider = providerWithFailingBatch(new GeminiError("Server error", 503));
+    const results = Promise.all(['milk', 'eggs'].map(name => searchPrices(provider, name, bristol, 5, EMPTY_DIETARY_PROFILE)));
+    await vi.runAllTimersAsync();
+    expect((await results).map(r => r[0].shop)).toEqual(['milk single', 'eggs single']);
+    expect(provider.findTopPriceOptions).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't retry item by item once the daily quota is gone", async () => {
+    const provider = providerWithFailingBatch(new GeminiError("Quota exhausted", 429, true));
+    const results = ['milk', 'eggs'].map(name => searchPrices(provider, name, leicester, 5, EMPTY_DIETARY_PROFILE));
+    results.forEach(r => r.catch(() => {}));
+    await vi.runAllTimersAsync();
+    await Promise.all(results.map(r => expect(r).rejects.toBeInstanceOf(GeminiError)));
+    expect(provider.findTopPriceOptions).not.toHaveBeenCalled();
+  });
+
+  it('stops listening for cancellation once a search settles', async () => {
+    const controller = new AbortController();
+    const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+    const result = searchPrices(fakeProvider(), 'milk', hull, 5, EMPTY_DIETARY_PROFILE, { signal: controller.signal });
+    await vi.runAllTimersAsync();
+    await result;
+    expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+
+  it('drops a cancelled search and starts a fresh queue afterwards', async () => {
+    const controller = new AbortController();
+    const first = fakeProvider();
+    const cancelled = searchPrices(first, 'milk', derby, 5, EMPTY_DIETARY_PROFILE, { signal: controller.signal });
+    controller.abort();
+    await expect(cancelled).rejects.toBeInstanceOf(RequestCancelledError);
+    await vi.runAllTimersAsync();
+    expect(first.findTopPriceOptions).not.toHaveBeenCalled();
+
+    // The emptied queue is gone, so the next search isn't sent through the old provider.
+    const second = fakeProvider();
+    const result = searchPrices(second, 'eggs', derby, 5, EMPTY_DIETARY_PROFILE);
+    await vi.runAllTimersAsync();
+    expect((await result)[0].shop).toBe('eggs single');
+    expect(second.findTopPriceOptions).toHaveBeenCalledTimes(1);
+  });
+});
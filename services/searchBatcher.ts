@@ -0,0 +1,111 @@
+import { DietaryProfile, LocationState, PriceOption } from "../types";
+import { PriceProvider } from "./priceProvider";
+import { GeminiError } from "./geminiService";
+import { getLocationCell } from "./priceCache";
+import { getProfileKey } from "./dietary";
+import { PRIORITY_ORDER, RequestCancelledError, RequestOptions, whenAllAborted } from "./requestScheduler";
+
+// Price searches that arrive close together (a pasted list, a batch refine, a resumed
+// session) are sent as one batched call per provider, location cell and dietary profile. While a batch
+// is in flight, new searches queue up behind it and form the next batch.
+const BATCH_WINDOW_MS = 500;
+
+interface PendingSearch {
+  itemName: string;
+  options: RequestOptions;
+  resolve: (options: PriceOption[] | Promise<PriceOption[]>) => void;
+  reject: (error: unknown) => void;
+}
+
+interface SearchQueue {
+  key: string;
+  provider: PriceProvider;
+  location: LocationState;
+  profile: DietaryProfile;
+  batchSize: number;
+  pending: PendingSearch[];
+  inFlight: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+const queues = new Map<string, SearchQueue>();
+
+export function searchPrices(
+  provider: PriceProvider,
+  itemName: string,
+  location: LocationState,
+  batchSize: number,
+  profile: DietaryProfile,
+  options: RequestOptions = {}
+): Promise<PriceOption[]> {
+  if (batchSize <= 1) return provider.findTopPriceOptions(itemName, location, profile, options);
+  if (options.signal?.aborted) return Promise.reject(new RequestCancelledError());
+
+  const key = `${provider.id}|${getLocationCell(location)}|${getProfileKey(profile)}`;
+  let queue = queues.get(key);
+  if (!queue) {
+    queue = { key, provider, location, profile, batchSize, pending: [], inFlight: false };
+    queues.set(key, queue);
+  }
+  queue.batchSize = batchSize;
+  return new Promise((resolve, reject) => {
+    // Cancelled before its batch went out: just leave it out of the batch.
+    const onAbort = () => {
+      const idx = queue!.pending.indexOf(search);
+      if (idx === -1) return;
+      queue!.pending.splice(idx, 1);
+      reject(new RequestCancelledError());
+      release(queue!);
+    };
+    const settled = <T>(settle: (value: T) => void) => (value: T) => {
+      options.signal?.removeEventListener('abort', onAbort);
+      settle(value);
+    };
+    const search: PendingSearch = { itemName, options, resolve: settled(resolve), reject: settled(reject) };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    queue!.pending.push(search);
+    schedule(queue!);
+  });
+}
+
+// Idle queues are dropped so one isn't kept for every place and profile ever searched.
+function release(queue: SearchQueue) {
+  if (queue.inFlight || queue.pending.length > 0) return;
+  clearTimeout(queue.timer);
+  queue.timer = undefined;
+  if (queues.get(queue.key) === queue) queues.delete(queue.key);
+}
+
+function schedule(queue: SearchQueue) {
+  if (queue.inFlight || queue.timer || queue.pending.length === 0) return;
+  queue.timer = setTimeout(() => flush(queue), BATCH_WINDOW_MS);
+}
+
+async function flush(queue: SearchQueue) {
+  queue.timer = undefined;
+  const batch = queue.pending.splice(0, queue.batchSize);
+  const { provider, location, profile } = queue;
+  queue.inFlight = true;
+  try {
+    if (batch.length === 1) {
+      batch[0].resolve(await provider.findTopPriceOptions(batch[0].itemName, location, profile, batch[0].options));
+    } else {
+      // The batch goes out at its most urgent member's priority.
+      const results = await provider.findTopPriceOptionsBatch(batch.map(s => s.itemName), location, profile, {
+        priority: PRIORITY_ORDER.find(p => batch.some(s => (s.options.priority || 'normal') === p)),
+        signal: whenAllAborted(batch.map(s => s.options.signal)),
+        tags: batch.flatMap(s => s.options.tags || [])
+      });
+      // Anything the batch missed gets its own search.
+      batch.forEach(s => s.resolve(results[s.itemName] ?? provider.findTopPriceOptions(s.itemName, location, profile, s.options)));
+    }
+  } catch (error) {
+    // A failed batch falls back to one search per item, unless retrying can't help.
+    const isFinal = batch.length === 1 || error instanceof RequestCancelledError || (error instanceof GeminiError && error.isDaily);
+    batch.forEach(s => isFinal ? s.reject(error) : s.resolve(provider.findTopPriceOptions(s.itemName, location, profile, s.options)));
+  } finally {
+    queue.inFlight = false;
+    schedule(queue);
+    release(queue);
+  }
+}
@@ -0,0 +1,82 @@
+import { ShoppingItem, ShoppingList } from "../types";
+import { normaliseItemName } from "./priceCache";
+import { ImportedItem, parseItemRecord } from "./listImport";
+
+// Lists are shared without a backend: the list is deflated into the URL fragment,
+// which browsers never send to a server, and read back when the link is opened.
+const FRAGMENT_KEY = "share";
+const SHARE_VERSION = 1;
+
+export interface SharedList {
+  name: string;
+  items: ImportedItem[];
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+async function pipeThrough(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream): Promise<Uint8Array<ArrayBuffer>> {
+  const response = new Response(new Blob([bytes]).stream().pipeThrough(stream));
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+// Only what's needed to rebuild the items; cheapest shop and unit prices are recomputed.
+export async function createShareLink(list: ShoppingList, includePrices: boolean): Promise<string> {
+  const payload = {
+    v: SHARE_VERSION,
+    name: list.name,
+    items: list.items.map(i => ({
+      originalName: i.originalName,
+      name: i.name,
+      emoji: i.emoji,
+      quantity: i.quantity,
+      unit: i.unit,
+      ...(includePrices && i.status === 'ready' ? { topOptions: i.topOptions, pricedAt: i.pricedAt } : {})
+    }))
+  };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const compressed = await pipeThrough(json, new CompressionStream('deflate-raw'));
+  return `${window.location.origin}${window.location.pathname}#${FRAGMENT_KEY}=${toBase64Url(compressed)}`;
+}
+
+export async function readShareFragment(hash: string, fallbackCurrency: string): Promise<SharedList | null> {
+  const match = hash.match(new RegExp(`^#${FRAGMENT_KEY}=([A-Za-z0-9_-]+)$`));
+  if (!match) return null;
+  try {
+    const json = await pipeThrough(fromBase64Url(match[1]), new DecompressionStream('deflate-raw'));
+    const payload = JSON.parse(new TextDecoder().decode(json));
+    if (payload?.v !== SHARE_VERSION || !Array.isArray(payload.items)) return null;
+    return {
+      name: typeof payload.name === 'string' ? payload.name : 'Shared List',
+      items: payload.items
+        .map((raw: unknown) => parseItemRecord(raw, fallbackCurrency))
+        .filter((i: ImportedItem | null): i is ImportedItem => !!i)
+    };
+  } catch (e) {
+    console.error("Failed to read shared list:", e);
+    return null;
+  }
+}
+
+export function clearShareFragment() {
+  window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+}
+
+// Items already on the list (matched by refined name) are left out of a merge.
+export function getNewSharedItems(existing: ShoppingItem[], shared: ImportedItem[]): ImportedItem[] {
+  const seen = new Set(existing.map(i => normaliseItemName(i.name)));
+  return shared.filter(item => {
+    const key = normaliseItemName(item.name);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AppSettings, RankedShop } from '../types';
+import { loadState, PersistedState, saveState, SCHEMA_VERSION } from './storageService';
+
+const STORAGE_KEY = 'smartshop:state';
+let store: Map<string, string>;
+
+const stored = (version: number, state: unknown) => store.set(STORAGE_KEY, JSON.stringify({ version, savedAt: 0, state }));
+
+beforeEach(() => {
+  store = new Map();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value)
+  });
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+const milk = { id: '1', originalName: 'milk', name: 'Milk', emoji: '🥛', status: 'pending' as const };
+const list = { id: 'l1', name: 'Weekly', items: [milk], createdAt: 0, cachedRankedShops: null, lastCalculationFingerprint: '' };
+
+describe('storageService', () => {
+  const state: PersistedState = {
+    lists: [list],
+    activeListId: 'l1',
+    settings: { distanceUnit: 'metric' } as AppSettings
+  };
+
+  it('restores what it saved', () => {
+    saveState(state);
+    expect(JSON.parse(store.get(STORAGE_KEY)!).version).toBe(SCHEMA_VERSION);
+    expect(loadState()).toEqual(state);
+  });
+
+  it('restores unlocated branches as infinitely far away', () => {
+    const unlocated = { shopName: 'Aldi', numericDistance: Infinity, stops: [{ shopName: 'Aldi', numericDistance: Infinity }] } as RankedShop;
+    saveState({ ...state, lists: [{ ...list, cachedRankedShops: [unlocated] }] });
+    const [shop] = loadState()!.lists[0].cachedRankedShops!;
+    expect(shop.numericDistance).toBe(Infinity);
+    expect(shop.stops![0].numericDistance).toBe(Infinity);
+  });
+
+  it('ignores state from a newer version', () => {
+    stored(SCHEMA_VERSION + 1, state);
+    expect(loadState()).toBeNull();
+  });
+
+  it('discards state it has no migration for', () => {
+    store.set(STORAGE_KEY, JSON.stringify(state));
+    expect(loadState()).toBeNull();
+  });
+
+  it('survives unreadable data', () => {
+    store.set(STORAGE_KEY, '{not json');
+    expect(loadState()).toBeNull();
+  });
+});
+
+describe('migrations', () => {
+  it('moves a v1 single list into the lists array', () => {
+    stored(1, { items: [milk], settings: { distanceUnit: 'metric' }, cachedRankedShops: null, lastCalculationFingerprint: 'abc' });
+    const restored = loadState()!;
+    expect(restored.lists).toHaveLength(1);
+    expect(restored.lists[0]).toMatchObject({ name: 'Shopping List', items: [milk], lastCalculationFingerprint: 'abc' });
+    expect(restored.activeListId).toBe(restored.lists[0].id);
+  });
+
+  it('turns a v2 currency symbol into an ISO code', () => {
+    stored(2, { lists: [list], activeListId: 'l1', settings: { currency: '£' } });
+    expect(loadState()!.settings.currency).toBe('GBP');
+  });
+
+  it('turns v3 typed locations into saved locations', () => {
+    const brighton = { lat: 50.82, lng: -0.14 };
+    stored(3, {
+      lists: [list, { ...list, id: 'l2', locationString: 'Brighton', locationOverride: brighton }],
+      activeListId: 'l2',
+      settings: { currency: 'GBP', locationString: 'Current GPS Location' }
+    });
+    const { settings, lists } = loadState()!;
+    expect(settings.savedLocations).toEqual([expect.objectContaining({ name: 'Brighton', coords: brighton })]);
+    expect(settings.activeLocationId).toBe(settings.savedLocations[0].id);
+    expect(lists.map(l => l.defaultLocationId)).toEqual([undefined, settings.savedLocations[0].id]);
+    expect(lists[1]).not.toHaveProperty('locationOverride');
+  });
+
+  it('runs every migration from v1 to the current version', () => {
+    stored(1, { items: [milk], settings: { currency: '$', locationString: 'Current GPS Location' }, cachedRankedShops: null, lastCalculationFingerprint: '' });
+    const { settings, lists } = loadState()!;
+    expect(settings).toMatchObject({ currency: 'USD', savedLocations: [], activeLocationId: 'gps' });
+    expect(lists[0].items).toEqual([milk]);
+  });
+});
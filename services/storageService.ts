@@ -0,0 +1,131 @@
+import { AppSettings, RankedShop, ShoppingList } from "../types";
+import { normaliseCurrencyCode } from "./currency";
+
+// Everything the app needs to restore itself after a reload lives under one key.
+// Bump SCHEMA_VERSION whenever the shape of ShoppingItem/AppSettings changes and
+// add a migration that upgrades the previous version's data.
+const STORAGE_KEY = "smartshop:state";
+export const SCHEMA_VERSION = 4;
+
+export interface PersistedState {
+  lists: ShoppingList[];
+  activeListId: string;
+  settings: AppSettings;
+}
+
+interface StoredEnvelope {
+  version: number;
+  savedAt: number;
+  state: PersistedState;
+}
+
+// MIGRATIONS[n] upgrades a state saved at version n to version n + 1.
+const MIGRATIONS: Record<number, (state: any) => any> = {
+  // v1 held a single list's items and strategy cache at the top level.
+  1: (state) => {
+    const id = Math.random().toString(36).substring(7);
+    return {
+      settings: state.settings,
+      activeListId: id,
+      lists: [{
+        id,
+        name: "Shopping List",
+        items: state.items || [],
+        createdAt: Date.now(),
+        cachedRankedShops: state.cachedRankedShops ?? null,
+        lastCalculationFingerprint: state.lastCalculationFingerprint || ""
+      }]
+    };
+  },
+  // v2 stored settings.currency as a bare symbol ('£'); v3 uses ISO 4217 codes.
+  2: (state) => ({
+    ...state,
+    settings: {
+      ...state.settings,
+      currency: normaliseCurrencyCode(state.settings?.currency, "GBP")
+    }
+  }),
+  // v3 had one typed location in settings plus a typed override per list; v4 keeps
+  // named saved locations, and lists point at one of them as their default.
+  3: (state) => {
+    const { locationString, manualLocation, ...settings } = state.settings || {};
+    const savedLocations: any[] = [];
+    const save = (name: string, coords: any) => {
+      const existing = savedLocations.find(l => l.query === name);
+      if (existing) return existing.id;
+      const id = Math.random().toString(36).substring(7);
+      savedLocations.push({ id, name, query: name, coords });
+      return id;
+    };
+    const isTyped = manualLocation && locationString && locationString !== 'Current GPS Location';
+    const settingsLocationId = isTyped ? save(locationString, manualLocation) : 'gps';
+    const lists = (state.lists || []).map(({ locationString, locationOverride, ...list }: any) => ({
+      ...list,
+      defaultLocationId: locationOverride && locationString ? save(locationString, locationOverride) : undefined
+    }));
+    // The open list's override used to win, so it stays the location in use.
+    const activeLocationId = lists.find((l: any) => l.id === state.activeListId)?.defaultLocationId || settingsLocationId;
+    return { ...state, settings: { ...settings, savedLocations, activeLocationId }, lists };
+  }
+};
+
+function migrate(envelope: { version?: number; state?: any }): PersistedState | null {
+  let version = typeof envelope.version === "number" ? envelope.version : 0;
+  let state = envelope.state;
+
+  if (version > SCHEMA_VERSION) {
+    console.warn(`Stored state is from a newer version (${version}). Ignoring it.`);
+    return null;
+  }
+
+  while (version < SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) {
+      console.warn(`No migration from storage version ${version}. Discarding stored state.`);
+      return null;
+    }
+    state = step(state);
+    version++;
+  }
+
+  return state;
+}
+
+// JSON has no Infinity, so an unlocated branch's numericDistance comes back as null.
+function reviveDistances(shop: RankedShop): RankedShop {
+  return {
+    ...shop,
+    numericDistance: shop.numericDistance ?? Infinity,
+    stops: shop.stops?.map(stop => ({ ...stop, numericDistance: stop.numericDistance ?? Infinity }))
+  };
+}
+
+function reviveList(list: ShoppingList): ShoppingList {
+  return {
+    ...list,
+    cachedRankedShops: list.cachedRankedShops?.map(reviveDistances) ?? null,
+    activeTrip: list.activeTrip && { ...list.activeTrip, strategy: reviveDistances(list.activeTrip.strategy) }
+  };
+}
+
+export function loadState(): PersistedState | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const state = migrate(JSON.parse(raw));
+    if (!state || !Array.isArray(state.lists) || state.lists.length === 0 || !state.settings) return null;
+    return { ...state, lists: state.lists.map(reviveList) };
+  } catch (e) {
+    console.error("Failed to restore saved state:", e);
+    return null;
+  }
+}
+
+export function saveState(state: PersistedState): void {
+  const envelope: StoredEnvelope = { version: SCHEMA_VERSION, savedAt: Date.now(), state };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(envelope));
+  } catch (e) {
+    console.error("Failed to save state:", e);
+  }
+}
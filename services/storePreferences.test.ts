@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { RankedShop, StorePreferences } from '../types';
+import { applyLoyalty, DEFAULT_STORE_PREFERENCES, getRankingScore, isExcluded, withoutExcluded } from './storePreferences';
+
+const prefs = (changes: Partial<StorePreferences>): StorePreferences => ({ ...DEFAULT_STORE_PREFERENCES, ...changes });
+
+const strategy = (shopName: string, totalPrice: number): RankedShop => ({
+  shopName,
+  branchName: shopName,
+  distance: '1 km',
+  numericDistance: 1,
+  totalPrice,
+  weight: 1,
+  itemsAtBest: 0,
+  isClosest: false,
+  isCheapest: false,
+  isWithinPreference: true,
+  receipt: [],
+  savingsDiff: [],
+  potentialSavings: 0
+});
+
+describe('store rules', () => {
+  it('match shops loosely by chain name', () => {
+    const rules = prefs({ excluded: ['Tesco'] });
+    expect(isExcluded('Tesco Extra', rules)).toBe(true);
+    expect(isExcluded('tesco', rules)).toBe(true);
+    expect(isExcluded('Sainsbury\'s', rules)).toBe(false);
+  });
+
+  it('drop excluded shops from the options', () => {
+    const options = [{ shop: 'Tesco Metro', price: 1, currency: 'GBP' }, { shop: 'Aldi', price: 2, currency: 'GBP' }];
+    expect(withoutExcluded(options, prefs({ excluded: ['tesco'] })).map(o => o.shop)).toEqual(['Aldi']);
+  });
+});
+
+describe('applyLoyalty', () => {
+  it('takes the card discount off at that shop only', () => {
+    const rules = prefs({ loyaltyDiscounts: { Tesco: 10 } });
+    expect(applyLoyalty(20, 'Tesco Extra', rules)).toBe(18);
+    expect(applyLoyalty(20, 'Aldi', rules)).toBe(20);
+  });
+});
+
+describe('getRankingScore', () => {
+  it('lets a favourite win when it is within the bonus of the cheapest', () => {
+    const rules = prefs({ favourites: ['Waitrose'], favouriteBonus: 5 });
+    expect(getRankingScore(strategy('Waitrose', 104), rules)).toBeLessThan(getRankingScore(strategy('Aldi', 100), rules));
+    expect(getRankingScore(strategy('Waitrose', 110), rules)).toBeGreaterThan(getRankingScore(strategy('Aldi', 100), rules));
+  });
+});
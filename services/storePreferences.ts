@@ -0,0 +1,64 @@
+import { PriceOption, RankedShop, StorePreferences } from "../types";
+
+export const DEFAULT_STORE_PREFERENCES: StorePreferences = {
+  excluded: [],
+  favourites: [],
+  favouriteBonus: 5,
+  loyaltyDiscounts: {}
+};
+
+// Search results name the same chain loosely ("Tesco", "tesco extra"), so shops are
+// matched on a normalised prefix rather than exactly.
+function normaliseShop(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function findShopRule(shopName: string, shops: string[]): string | undefined {
+  const needle = normaliseShop(shopName);
+  return shops.find(s => {
+    const rule = normaliseShop(s);
+    return rule.length > 0 && (needle === rule || needle.startsWith(rule));
+  });
+}
+
+export function isExcluded(shopName: string, prefs: StorePreferences): boolean {
+  return !!findShopRule(shopName, prefs.excluded);
+}
+
+export function isFavourite(shopName: string, prefs: StorePreferences): boolean {
+  return !!findShopRule(shopName, prefs.favourites);
+}
+
+export function withoutExcluded(options: PriceOption[], prefs: StorePreferences): PriceOption[] {
+  return prefs.excluded.length ? options.filter(o => !isExcluded(o.shop, prefs)) : options;
+}
+
+// As a fraction, e.g. 0.05 for a 5% card discount.
+export function getLoyaltyDiscount(shopName: string, prefs: StorePreferences): number {
+  const rule = findShopRule(shopName, Object.keys(prefs.loyaltyDiscounts));
+  return rule ? Math.min(100, Math.max(0, prefs.loyaltyDiscounts[rule])) / 100 : 0;
+}
+
+export function applyLoyalty(amount: number, shopName: string, prefs: StorePreferences): number {
+  return amount * (1 - getLoyaltyDiscount(shopName, prefs));
+}
+
+// Used for ordering only. Favourites are scored as if the bonus came off what would be
+// spent there, so a favourite wins when it is within that margin of the cheapest;
+// split trips get it on the favourite stops' share.
+export function getRankingScore(strategy: RankedShop, prefs: StorePreferences): number {
+  return strategy.totalPrice - getFavouriteBonus(strategy, prefs);
+}
+
+export function getFavouriteBonus(strategy: RankedShop, prefs: StorePreferences): number {
+  const bonus = prefs.favouriteBonus / 100;
+  if (!bonus) return 0;
+  if (strategy.stops) {
+    return strategy.stops.filter(s => isFavourite(s.shopName, prefs)).reduce((sum, s) => sum + s.subtotal * bonus, 0);
+  }
+  return isFavourite(strategy.shopName, prefs) ? strategy.totalPrice * bonus : 0;
+}
+
+export function hasStorePreferences(prefs: StorePreferences): boolean {
+  return prefs.excluded.length > 0 || prefs.favourites.length > 0 || Object.keys(prefs.loyaltyDiscounts).length > 0;
+}
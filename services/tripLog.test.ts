@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { completeTrip, getTripTotals, TripLine } from './tripLog';
+import { getItemHistory, isUnusuallyHigh, recordPriceObservations } from './priceHistory';
+
+const location = { lat: 51.5, lng: -0.1 };
+const ctx = { base: 'GBP', rates: { GBP: 1 } };
+
+// Eggs sold in sixes: 12 eggs is two packs at £1.50.
+const eggs: TripLine = { itemName: 'Eggs', shopName: 'Tesco', quantity: 12, unit: 'each', projected: 3, actual: 3.3, price: 1.5 };
+const skipped: TripLine = { itemName: 'Steak', shopName: 'Tesco', quantity: 1, unit: 'each', projected: 12, actual: 0, price: 12 };
+
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value)
+  });
+});
+
+describe('getTripTotals', () => {
+  it('leaves lines that were not bought out of both totals', () => {
+    expect(getTripTotals([eggs, skipped])).toEqual({ projectedTotal: 3, actualTotal: 3.3 });
+  });
+});
+
+describe('completeTrip', () => {
+  it('saves totals without the skipped lines', () => {
+    const trip = completeTrip({ listName: 'Weekly', strategyName: 'Tesco', currency: 'GBP', lines: [eggs, skipped] }, location);
+    expect(trip.projectedTotal).toBe(3);
+    expect(trip.actualTotal).toBeCloseTo(3.3);
+  });
+
+  it('records the confirmed price per pack, like searched prices', () => {
+    completeTrip({ listName: 'Weekly', strategyName: 'Tesco', currency: 'GBP', lines: [eggs] }, location);
+    const confirmed = getItemHistory('Eggs').filter(o => o.isConfirmed);
+    expect(confirmed.at(-1)?.price).toBeCloseTo(1.65);
+  });
+
+  it('gives confirmed prices more weight in the high-price check', () => {
+    recordPriceObservations('Bread', [{ shop: 'Aldi', price: 1, currency: 'GBP' }], location);
+    expect(isUnusuallyHigh('Bread', 1.5, undefined, undefined, ctx)).toBe(false);
+    completeTrip({ listName: 'Weekly', strategyName: 'Aldi', currency: 'GBP', lines: [{ itemName: 'Bread', shopName: 'Aldi', quantity: 1, unit: 'each', projected: 1, actual: 1, price: 1 }] }, location);
+    expect(isUnusuallyHigh('Bread', 1.5, undefined, undefined, ctx)).toBe(true);
+  });
+});
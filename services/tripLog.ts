@@ -0,0 +1,139 @@
+import { LocationState, QuantityUnit, RankedShop, UnitPriceBasis } from "../types";
+import { recordConfirmedPrice } from "./priceHistory";
+
+// Completed trips: what a strategy projected against what the till actually said.
+// Kept on their own key, like the price history, so they outlive the lists.
+const STORAGE_KEY = "smartshop:trips";
+const MAX_TRIPS = 200;
+
+export interface TripLine {
+  itemName: string;
+  shopName: string;
+  quantity: number;
+  unit: QuantityUnit;
+  projected: number;
+  actual: number; // 0 when the line wasn't bought
+  // The projected shelf price behind the line, in the trip's currency. Missing on
+  // trips saved before confirmed prices were scaled from it.
+  price?: number;
+  unitPrice?: number;
+  unitPriceBasis?: UnitPriceBasis;
+}
+
+export interface CompletedTrip {
+  id: string;
+  listName: string;
+  strategyName: string;
+  completedAt: number;
+  currency: string; // Base currency at the time; all amounts are in it
+  lines: TripLine[];
+  projectedTotal: number;
+  actualTotal: number;
+}
+
+export interface ShopAccuracy {
+  shopName: string;
+  lineCount: number;
+  // Mean of |actual - projected| / projected, and of the signed difference, as fractions.
+  meanError: number;
+  bias: number;
+}
+
+let memoryTrips: CompletedTrip[] | null = null;
+
+function readTrips(): CompletedTrip[] {
+  if (memoryTrips) return memoryTrips;
+  try {
+    memoryTrips = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+  } catch (e) {
+    console.error("Failed to read trips:", e);
+    memoryTrips = [];
+  }
+  return memoryTrips!;
+}
+
+function writeTrips(trips: CompletedTrip[]) {
+  memoryTrips = trips;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(trips));
+  } catch (e) {
+    console.error("Failed to save trips:", e);
+  }
+}
+
+export function createTripLines(strategy: RankedShop): TripLine[] {
+  return strategy.receipt.map(line => ({
+    itemName: line.itemName,
+    shopName: line.shopName || strategy.shopName,
+    quantity: line.quantity,
+    unit: line.unit,
+    projected: line.lineTotal,
+    actual: line.lineTotal,
+    price: line.price,
+    unitPrice: line.unitPrice,
+    unitPriceBasis: line.unitPriceBasis
+  }));
+}
+
+// Lines that weren't bought say nothing about the projection, so they're left out of
+// both totals rather than counted as a saving.
+export function getTripTotals(lines: TripLine[]): { projectedTotal: number; actualTotal: number } {
+  const bought = lines.filter(l => l.actual > 0);
+  return {
+    projectedTotal: bought.reduce((sum, l) => sum + l.projected, 0),
+    actualTotal: bought.reduce((sum, l) => sum + l.actual, 0)
+  };
+}
+
+// Saves the trip and feeds every confirmed price back into the price history. The
+// till only tells us the line total, so the projected shelf price is scaled by how far
+// the line was out; that keeps it per pack, like the searched prices it sits beside.
+export function completeTrip(
+  trip: Omit<CompletedTrip, 'id' | 'completedAt' | 'projectedTotal' | 'actualTotal'>,
+  location: LocationState
+): CompletedTrip {
+  const completed: CompletedTrip = {
+    ...trip,
+    id: Math.random().toString(36).substring(7),
+    completedAt: Date.now(),
+    ...getTripTotals(trip.lines)
+  };
+  writeTrips([completed, ...readTrips()].slice(0, MAX_TRIPS));
+  completed.lines
+    .filter(l => l.actual > 0 && l.projected > 0 && l.price !== undefined)
+    .forEach(l => {
+      const ratio = l.actual / l.projected;
+      recordConfirmedPrice(l.itemName, {
+        shop: l.shopName,
+        price: l.price! * ratio,
+        currency: trip.currency,
+        unitPrice: l.unitPrice !== undefined ? l.unitPrice * ratio : undefined,
+        unitPriceBasis: l.unitPriceBasis
+      }, location);
+    });
+  return completed;
+}
+
+export function getTrips(): CompletedTrip[] {
+  return readTrips();
+}
+
+export function deleteTrip(id: string) {
+  writeTrips(readTrips().filter(t => t.id !== id));
+}
+
+export function getShopAccuracy(trips: CompletedTrip[]): ShopAccuracy[] {
+  const byShop: Record<string, number[]> = {};
+  trips.forEach(trip => trip.lines.forEach(line => {
+    if (line.projected <= 0 || line.actual <= 0) return;
+    (byShop[line.shopName] = byShop[line.shopName] || []).push((line.actual - line.projected) / line.projected);
+  }));
+  return Object.entries(byShop)
+    .map(([shopName, errors]) => ({
+      shopName,
+      lineCount: errors.length,
+      meanError: errors.reduce((a, e) => a + Math.abs(e), 0) / errors.length,
+      bias: errors.reduce((a, e) => a + e, 0) / errors.length
+    }))
+    .sort((a, b) => b.lineCount - a.lineCount);
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { getTravelCost, optimiseTrips, TripCostSettings } from './tripOptimizer';
+
+const perStop: TripCostSettings = { mode: 'per-stop', costPerStop: 2, costPerDistance: 0 };
+const shops = [{ shopName: 'Near', numericDistance: 1 }, { shopName: 'Far', numericDistance: 4 }];
+// Item 0 is much cheaper at Far; item 1 is only sold at Near.
+const prices: Record<string, Array<number | null>> = { Near: [10, 3], Far: [5, null] };
+const lineCost = (i: number, shop: string) => prices[shop][i];
+
+describe('getTravelCost', () => {
+  it('charges every stop after the nearest', () => {
+    expect(getTravelCost(shops, perStop)).toBe(2);
+    expect(getTravelCost(shops, { mode: 'per-distance', costPerStop: 0, costPerDistance: 0.5 })).toBe(4);
+  });
+});
+
+describe('optimiseTrips', () => {
+  it('returns the cheapest plan for each trip size', () => {
+    const [single, split] = optimiseTrips(shops, 2, lineCost, () => 99, perStop);
+    expect(single).toMatchObject({ shops: ['Near'], total: 13 });
+    expect(split).toMatchObject({ shops: ['Near', 'Far'], assignment: ['Far', 'Near'], travelCost: 2, total: 10 });
+  });
+
+  it('drops plans where a stop has nothing to buy', () => {
+    const plans = optimiseTrips(shops, 1, i => [1][i], () => 99, perStop);
+    expect(plans.map(p => p.shops.length)).toEqual([1]);
+  });
+
+  it('drops plans it cannot cost', () => {
+    const unlocated = [{ shopName: 'Near', numericDistance: 1 }, { shopName: 'Far', numericDistance: Infinity }];
+    const plans = optimiseTrips(unlocated, 2, lineCost, () => 99, { mode: 'per-distance', costPerStop: 0, costPerDistance: 1 });
+    expect(plans.every(p => Number.isFinite(p.total))).toBe(true);
+    expect(plans.some(p => p.shops.includes('Far') && p.shops.length > 1)).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import { SplitTripCostMode } from "../types";
+
+// Shops considered for split trips, each located with one branch lookup; the top 3 of
+// these also appear as single-store trips.
+export const MAX_SPLIT_CANDIDATES = 5;
+
+export interface TripCostSettings {
+  mode: SplitTripCostMode;
+  costPerStop: number;
+  costPerDistance: number; // Per km or mi, matching the user's distanceUnit
+}
+
+export interface StoreCandidate {
+  shopName: string;
+  numericDistance: number;
+}
+
+export interface TripPlan {
+  shops: string[]; // Nearest first
+  assignment: string[]; // Shop each item is bought at, indexed like the items passed in
+  basketCost: number;
+  travelCost: number;
+  total: number;
+}
+
+// Cost of item i at a shop, or null if the shop has no price for it.
+export type LineCostFn = (itemIndex: number, shopName: string) => number | null;
+
+function combinations<T>(pool: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  const result: T[][] = [];
+  pool.forEach((head, i) => {
+    combinations(pool.slice(i + 1), size - 1).forEach(tail => result.push([head, ...tail]));
+  });
+  return result;
+}
+
+// The nearest store is the trip you were making anyway; every further store is an
+// extra stop priced either flat or as a round trip at the configured distance rate.
+export function getTravelCost(stops: StoreCandidate[], costs: TripCostSettings): number {
+  return stops.slice(1).reduce((acc, stop) => {
+    if (costs.mode === 'per-stop') return acc + costs.costPerStop;
+    return costs.costPerDistance > 0 ? acc + stop.numericDistance * 2 * costs.costPerDistance : acc;
+  }, 0);
+}
+
+function planFor(
+  stops: StoreCandidate[],
+  itemCount: number,
+  lineCost: LineCostFn,
+  fallbackCost: (itemIndex: number) => number,
+  costs: TripCostSettings
+): TripPlan | null {
+  const assignment: string[] = [];
+  let basketCost = 0;
+
+  for (let i = 0; i < itemCount; i++) {
+    let bestShop: string | null = null;
+    let bestCost = Infinity;
+    stops.forEach(stop => {
+      const cost = lineCost(i, stop.shopName);
+      if (cost !== null && cost < bestCost) {
+        bestCost = cost;
+        bestShop = stop.shopName;
+      }
+    });
+    // Nobody on this route has a price: buy it at the first stop at an estimated price.
+    if (bestShop === null) {
+      bestShop = stops[0].shopName;
+      bestCost = fallbackCost(i);
+    }
+    assignment.push(bestShop);
+    basketCost += bestCost;
+  }
+
+  // A plan where some store ends up with nothing to buy is really a smaller plan.
+  if (stops.some(stop => !assignment.includes(stop.shopName))) return null;
+
+  const travelCost = getTravelCost(stops, costs);
+  const total = basketCost + travelCost;
+  if (!isFinite(total)) return null;
+
+  return { shops: stops.map(s => s.shopName), assignment, basketCost, travelCost, total };
+}
+
+// Returns the cheapest plan (basket plus travel) for each trip size from 1 to maxStops.
+// Candidate lists are small (a handful of shops), so every combination is tried.
+export function optimiseTrips(
+  candidates: StoreCandidate[],
+  itemCount: number,
+  lineCost: LineCostFn,
+  fallbackCost: (itemIndex: number) => number,
+  costs: TripCostSettings,
+  maxStops: number = 3
+): TripPlan[] {
+  const byDistance = [...candidates].sort((a, b) => a.numericDistance - b.numericDistance);
+  const plans: TripPlan[] = [];
+
+  for (let size = 1; size <= Math.min(maxStops, byDistance.length); size++) {
+    let best: TripPlan | null = null;
+    combinations(byDistance, size).forEach(stops => {
+      const plan = planFor(stops, itemCount, lineCost, fallbackCost, costs);
+      if (plan && (!best || plan.total < best.total)) best = plan;
+    });
+    if (best) plans.push(best);
+  }
+
+  return plans;
+}
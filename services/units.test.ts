@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { ShoppingItem } from '../types';
+import { formatQuantity, getItemCost, normaliseUnit, parseQuantity, rankPriceOptions, withUnitPrice } from './units';
+
+const ctx = { base: 'GBP', rates: { GBP: 1.17, EUR: 1 } };
+const item = (changes: Partial<ShoppingItem> = {}): ShoppingItem => ({ id: '1', originalName: 'x', name: 'x', emoji: '🛒', status: 'ready', ...changes });
+
+describe('parseQuantity', () => {
+  it('pulls a leading amount and unit off the name', () => {
+    expect(parseQuantity('2kg potatoes')).toEqual({ name: 'potatoes', quantity: 2, unit: 'kg' });
+    expect(parseQuantity('3 tins of beans')).toEqual({ name: 'beans', quantity: 3, unit: 'pack' });
+    expect(parseQuantity('6 eggs')).toEqual({ name: 'eggs', quantity: 6, unit: 'each' });
+  });
+
+  it('leaves names without an amount alone', () => {
+    expect(parseQuantity('milk')).toEqual({ name: 'milk' });
+  });
+});
+
+describe('normaliseUnit', () => {
+  it('maps free-text units onto ours', () => {
+    expect(normaliseUnit('Litres')).toBe('l');
+    expect(normaliseUnit('grams')).toBe('g');
+    expect(normaliseUnit('handful')).toBeUndefined();
+  });
+});
+
+describe('formatQuantity', () => {
+  it('formats each unit', () => {
+    expect(formatQuantity(2)).toBe('2 ×');
+    expect(formatQuantity(1, 'pack')).toBe('1 pack');
+    expect(formatQuantity(1.5, 'kg')).toBe('1.5kg');
+  });
+});
+
+describe('withUnitPrice', () => {
+  it('normalises the pack to a price per kg, litre or item', () => {
+    expect(withUnitPrice({ shop: 'A', price: 1, currency: 'GBP', packSize: 500, packUnit: 'g' })).toMatchObject({ unitPrice: 2, unitPriceBasis: 'kg' });
+    expect(withUnitPrice({ shop: 'A', price: 3, currency: 'GBP', packSize: 6, packUnit: 'each' })).toMatchObject({ unitPrice: 0.5, unitPriceBasis: 'each' });
+    expect(withUnitPrice({ shop: 'A', price: 3, currency: 'GBP' }).unitPrice).toBeUndefined();
+  });
+});
+
+describe('getItemCost', () => {
+  it('costs the requested amount by unit price when the bases match', () => {
+    const option = withUnitPrice({ shop: 'A', price: 1, currency: 'GBP', packSize: 500, packUnit: 'g' });
+    expect(getItemCost(option, item({ quantity: 2, unit: 'kg' }))).toBe(4);
+  });
+
+  it('counts whole packs otherwise', () => {
+    expect(getItemCost({ shop: 'A', price: 1.5, currency: 'GBP' }, item({ quantity: 3 }))).toBe(4.5);
+  });
+});
+
+describe('rankPriceOptions', () => {
+  it('compares unit prices so a bigger pack can win', () => {
+    const small = withUnitPrice({ shop: 'Small', price: 1, currency: 'GBP', packSize: 500, packUnit: 'g' });
+    const big = withUnitPrice({ shop: 'Big', price: 1.6, currency: 'GBP', packSize: 1, packUnit: 'kg' });
+    expect(rankPriceOptions([small, big], item(), ctx).map(o => o.shop)).toEqual(['Big', 'Small']);
+  });
+
+  it('compares in the base currency', () => {
+    const pounds = { shop: 'UK', price: 1, currency: 'GBP' };
+    const euros = { shop: 'EU', price: 1.1, currency: 'EUR' };
+    expect(rankPriceOptions([pounds, euros], item(), ctx).map(o => o.shop)).toEqual(['EU', 'UK']);
+  });
+});
@@ -0,0 +1,135 @@
+import { PriceOption, QuantityUnit, ShoppingItem, UnitPriceBasis } from "../types";
+import { convertAmount, CurrencyContext, formatMoney } from "./currency";
+
+export const QUANTITY_UNITS: QuantityUnit[] = ['each', 'pack', 'kg', 'g', 'l', 'ml'];
+
+const UNIT_ALIASES: Record<string, QuantityUnit> = {
+  each: 'each', x: 'each', item: 'each', items: 'each', pc: 'each', pcs: 'each', piece: 'each', pieces: 'each',
+  pack: 'pack', packs: 'pack', tin: 'pack', tins: 'pack', can: 'pack', cans: 'pack', bottle: 'pack', bottles: 'pack', bag: 'pack', bags: 'pack', box: 'pack', boxes: 'pack',
+  kg: 'kg', kgs: 'kg', kilo: 'kg', kilos: 'kg', kilogram: 'kg', kilograms: 'kg',
+  g: 'g', gram: 'g', grams: 'g', gr: 'g',
+  l: 'l', litre: 'l', litres: 'l', liter: 'l', liters: 'l', ltr: 'l',
+  ml: 'ml', millilitre: 'ml', millilitres: 'ml', milliliter: 'ml', milliliters: 'ml'
+};
+
+// Gemini answers in free text, so map whatever it says onto the units we support.
+export function normaliseUnit(unit?: string | null): QuantityUnit | undefined {
+  if (!unit) return undefined;
+  return UNIT_ALIASES[unit.trim().toLowerCase()];
+}
+
+// Pulls a leading amount off free text: "2kg potatoes", "3 x tins of beans", "6 eggs".
+export function parseQuantity(text: string): { name: string; quantity?: number; unit?: QuantityUnit } {
+  const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*(×|[a-z]+)?\s+(.+)$/i)
+    || text.trim().match(/^(\d+(?:\.\d+)?)(×|[a-z]+)$/i);
+  if (!match) return { name: text.trim() };
+  const quantity = parseFloat(match[1]);
+  const unit = match[2] === '×' ? 'each' : normaliseUnit(match[2]);
+  const rest = (match[3] || '').replace(/^of\s+/i, '');
+  if (unit) return { name: rest || text.trim(), quantity, unit };
+  return { name: [match[2], rest].filter(Boolean).join(' '), quantity, unit: 'each' };
+}
+
+export function getQuantity(item: ShoppingItem): number {
+  return item.quantity && item.quantity > 0 ? item.quantity : 1;
+}
+
+export function formatQuantity(quantity: number, unit: QuantityUnit = 'each'): string {
+  const amount = Number.isInteger(quantity) ? quantity.toString() : quantity.toFixed(2).replace(/0+$/, '');
+  if (unit === 'each') return `${amount} ×`;
+  if (unit === 'pack') return `${amount} ${quantity === 1 ? 'pack' : 'packs'}`;
+  return `${amount}${unit}`;
+}
+
+const BASIS_FACTORS: Record<QuantityUnit, { basis: UnitPriceBasis; factor: number } | null> = {
+  kg: { basis: 'kg', factor: 1 },
+  g: { basis: 'kg', factor: 0.001 },
+  l: { basis: 'l', factor: 1 },
+  ml: { basis: 'l', factor: 0.001 },
+  each: { basis: 'each', factor: 1 },
+  pack: null
+};
+
+// Converts an amount to its comparison basis, e.g. 500g -> 0.5kg. Packs have no basis.
+function toBasis(amount: number, unit: QuantityUnit) {
+  const entry = BASIS_FACTORS[unit];
+  return entry ? { basis: entry.basis, amount: amount * entry.factor } : null;
+}
+
+export function withUnitPrice(option: PriceOption): PriceOption {
+  const packUnit = normaliseUnit(option.packUnit);
+  const packSize = option.packSize && option.packSize > 0 ? option.packSize : undefined;
+  const converted = packUnit && packSize ? toBasis(packSize, packUnit) : null;
+  return {
+    ...option,
+    packSize,
+    packUnit,
+    unitPrice: converted && converted.amount > 0 ? option.price / converted.amount : undefined,
+    unitPriceBasis: converted?.basis
+  };
+}
+
+// The amount an item's prices should be compared over: what the user asked for,
+// or failing that the pack we picked as cheapest, so every shop is costed for the
+// same amount rather than for whatever pack size it happens to stock.
+function getReferenceAmount(item: ShoppingItem) {
+  if (item.quantity) return toBasis(item.quantity, item.unit || 'each');
+  if (item.packSize && item.packUnit) return toBasis(item.packSize, item.packUnit);
+  return null;
+}
+
+// What the requested quantity of an item costs at the given option. When the
+// reference amount and the pack are measured the same way (weight, volume or
+// count) we use the normalised unit price, otherwise quantity counts whole packs.
+export function getItemCost(option: PriceOption, item: ShoppingItem): number {
+  const reference = getReferenceAmount(item);
+  if (reference && option.unitPrice !== undefined && option.unitPriceBasis === reference.basis) {
+    return option.unitPrice * reference.amount;
+  }
+  return option.price * getQuantity(item);
+}
+
+// Cheapest first, compared in the user's currency. Without an explicit quantity we
+// compare unit prices where every option has one on the same basis, so a 1kg bag
+// beats a 500g bag at 60% of its price.
+export function rankPriceOptions(options: PriceOption[], item: ShoppingItem, ctx: CurrencyContext): PriceOption[] {
+  const inBase = (amount: number, option: PriceOption) => convertAmount(amount, option.currency, ctx);
+  if (item.quantity) {
+    return [...options].sort((a, b) => inBase(getItemCost(a, item), a) - inBase(getItemCost(b, item), b));
+  }
+  const basis = options[0]?.unitPriceBasis;
+  const comparable = !!basis && options.every(o => o.unitPrice !== undefined && o.unitPriceBasis === basis);
+  return [...options].sort((a, b) => comparable 
+    ? inBase(a.unitPrice!, a) - inBase(b.unitPrice!, b) 
+    : inBase(a.price, a) - inBase(b.price, b));
+}
+
+export function formatPackSize(packSize?: number, packUnit?: QuantityUnit): string {
+  if (!packSize || !packUnit) return '';
+  if (packUnit === 'each') return `${packSize} pack`;
+  if (packUnit === 'pack') return `${packSize} ${packSize === 1 ? 'pack' : 'packs'}`;
+  return `${packSize}${packUnit}`;
+}
+
+export function formatUnitPrice(currency: string, unitPrice?: number, basis?: UnitPriceBasis): string {
+  if (unitPrice === undefined || !basis) return '';
+  return `${formatMoney(unitPrice, currency)}/${basis === 'each' ? 'ea' : basis}`;
+}
+
+// Re-ranks an item's options and copies the winner onto the item. Called whenever the
+// options or the item's quantity change, since either can change which shop wins.
+export function applyCheapestOption(item: ShoppingItem, ctx: CurrencyContext): ShoppingItem {
+  const topOptions = rankPriceOptions(item.topOptions || [], item, ctx);
+  const cheapest: PriceOption = topOptions[0] || { shop: "Unknown", price: 0, currency: ctx.base };
+  return {
+    ...item,
+    topOptions,
+    cheapestShop: cheapest.shop,
+    price: cheapest.price,
+    currency: cheapest.currency,
+    packSize: cheapest.packSize,
+    packUnit: cheapest.packUnit,
+    unitPrice: cheapest.unitPrice,
+    unitPriceBasis: cheapest.unitPriceBasis
+  };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { ShoppingItem } from '../types';
+import { estimateListCalls } from './usageMeter';
+
+const item = (id: string, status: ShoppingItem['status'], shops: string[] = []): ShoppingItem => ({
+  id,
+  originalName: id,
+  name: id,
+  emoji: '🛒',
+  status,
+  topOptions: shops.map(shop => ({ shop, price: 1, currency: 'GBP' }))
+});
+
+describe('estimateListCalls', () => {
+  it('batches searches and refines every unchecked item', () => {
+    const items = [item('a', 'pending'), item('b', 'pending'), item('c', 'searching')];
+    expect(estimateListCalls(items, 2)).toMatchObject({ search: 2, plain: 2 });
+  });
+
+  it('counts a branch lookup for every split-trip candidate', () => {
+    expect(estimateListCalls([item('a', 'ready', ['Aldi', 'Tesco']), item('b', 'ready', ['Tesco'])], 1).maps).toBe(2);
+    expect(estimateListCalls([item('a', 'ready', ['A', 'B', 'C', 'D', 'E', 'F'])], 1).maps).toBe(5);
+  });
+
+  it('assumes every candidate needs a lookup while items are unpriced', () => {
+    expect(estimateListCalls([item('a', 'ready', ['Aldi']), item('b', 'pending')], 1).maps).toBe(5);
+  });
+
+  it('needs nothing for an empty list', () => {
+    expect(estimateListCalls([], 1)).toEqual({ search: 0, maps: 0, plain: 0 });
+  });
+});
@@ -0,0 +1,143 @@
+import { ApiUsageLimits, ShoppingItem } from "../types";
+import { RequestClass } from "./requestScheduler";
+import { MAX_SPLIT_CANDIDATES } from "./tripOptimizer";
+
+// Every API call that actually went out, counted per day by call class and model.
+// Free-tier quotas reset at midnight Pacific time, so the days here do too. Kept on
+// its own key, like the price history, so clearing lists doesn't reset the count.
+const STORAGE_KEY = "smartshop:usage";
+const MAX_DAYS = 14;
+const MAX_RECENT_CALLS = 50;
+const QUOTA_TIME_ZONE = "America/Los_Angeles";
+
+// Share of a daily limit after which the settings panel starts warning.
+export const USAGE_WARNING_FRACTION = 0.8;
+
+// Starting points only: free-tier quotas vary by model and change often.
+export const DEFAULT_USAGE_LIMITS: ApiUsageLimits = { search: 500, maps: 500, plain: 250 };
+
+export const REQUEST_CLASS_LABELS: Record<RequestClass, string> = {
+  search: 'Price searches',
+  maps: 'Branch lookups',
+  plain: 'Item checks'
+};
+
+export interface UsageCounters {
+  calls: number;
+  failures: number;
+  tokens: number;
+}
+
+export interface ApiCallRecord {
+  at: number;
+  requestClass: RequestClass;
+  model: string;
+  ok: boolean;
+  status?: number; // HTTP status of a failed call
+  tokens: number; // Total tokens from the response's usage metadata, 0 if it failed
+}
+
+export interface DailyUsage {
+  date: string; // YYYY-MM-DD in the quota's time zone
+  byClass: Record<RequestClass, UsageCounters>;
+  byModel: Record<string, UsageCounters>;
+}
+
+interface UsageLog {
+  days: DailyUsage[]; // Newest first
+  recent: ApiCallRecord[];
+}
+
+const listeners = new Set<() => void>();
+let memoryUsage: UsageLog | null = null;
+
+function readUsage(): UsageLog {
+  if (memoryUsage) return memoryUsage;
+  try {
+    memoryUsage = { days: [], recent: [], ...JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}") };
+  } catch (e) {
+    console.error("Failed to read API usage:", e);
+    memoryUsage = { days: [], recent: [] };
+  }
+  return memoryUsage!;
+}
+
+function writeUsage(usage: UsageLog) {
+  memoryUsage = usage;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(usage));
+  } catch (e) {
+    console.error("Failed to save API usage:", e);
+  }
+  listeners.forEach(listener => listener());
+}
+
+const emptyCounters = (): UsageCounters => ({ calls: 0, failures: 0, tokens: 0 });
+
+function getEmptyDay(date: string): DailyUsage {
+  return { date, byClass: { search: emptyCounters(), maps: emptyCounters(), plain: emptyCounters() }, byModel: {} };
+}
+
+function getQuotaDate(time: number): string {
+  // en-CA formats dates as YYYY-MM-DD.
+  return new Date(time).toLocaleDateString('en-CA', { timeZone: QUOTA_TIME_ZONE });
+}
+
+function addTo(counters: UsageCounters, call: ApiCallRecord): UsageCounters {
+  return {
+    calls: counters.calls + 1,
+    failures: counters.failures + (call.ok ? 0 : 1),
+    tokens: counters.tokens + call.tokens
+  };
+}
+
+export function recordApiCall(call: Omit<ApiCallRecord, 'at'>) {
+  const record: ApiCallRecord = { ...call, at: Date.now() };
+  const usage = readUsage();
+  const date = getQuotaDate(record.at);
+  const today = usage.days[0]?.date === date ? usage.days[0] : getEmptyDay(date);
+  const updated: DailyUsage = {
+    date,
+    byClass: { ...today.byClass, [record.requestClass]: addTo(today.byClass[record.requestClass], record) },
+    byModel: { ...today.byModel, [record.model]: addTo(today.byModel[record.model] || emptyCounters(), record) }
+  };
+  writeUsage({
+    days: [updated, ...usage.days.filter(d => d.date !== date)].slice(0, MAX_DAYS),
+    recent: [record, ...usage.recent].slice(0, MAX_RECENT_CALLS)
+  });
+}
+
+export function getTodayUsage(): DailyUsage {
+  const date = getQuotaDate(Date.now());
+  const latest = readUsage().days[0];
+  return latest?.date === date ? latest : getEmptyDay(date);
+}
+
+export function getRecentCalls(): ApiCallRecord[] {
+  return readUsage().recent;
+}
+
+export function subscribeToUsage(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function getRemainingCalls(usage: DailyUsage, limits: ApiUsageLimits): Record<RequestClass, number> {
+  return {
+    search: Math.max(0, limits.search - usage.byClass.search.calls),
+    maps: Math.max(0, limits.maps - usage.byClass.maps.calls),
+    plain: Math.max(0, limits.plain - usage.byClass.plain.calls)
+  };
+}
+
+// Worst case for pricing what's left on a list: every unchecked item needs a refine and
+// every unpriced one a search (batched as set in Settings). Cache hits make it cheaper.
+// The summary then looks up a branch for each of its split-trip candidates; while
+// items are unpriced we can't know which shops those are, so assume the full set.
+export function estimateListCalls(items: ShoppingItem[], searchBatchSize: number): Record<RequestClass, number> {
+  const toRefine = items.filter(i => i.status === 'pending' || i.status === 'correcting' || i.status === 'error').length;
+  const toSearch = items.filter(i => i.status !== 'ready').length;
+  const knownShops = new Set(items.flatMap(i => i.status === 'ready' ? (i.topOptions || []).map(o => o.shop) : [])).size;
+  const maps = toSearch > 0 ? MAX_SPLIT_CANDIDATES : Math.min(MAX_SPLIT_CANDIDATES, knownShops);
+  return { search: Math.ceil(toSearch / Math.max(1, searchBatchSize)), maps, plain: toRefine };
+}
@@ -1,8 +1,16 @@
 
+export type QuantityUnit = 'each' | 'pack' | 'kg' | 'g' | 'l' | 'ml';
+export type UnitPriceBasis = 'kg' | 'l' | 'each';
+export type GroceryCategory = 'produce' | 'bakery' | 'meat' | 'dairy' | 'pantry' | 'drinks' | 'frozen' | 'snacks' | 'household' | 'other';
+
 export interface PriceOption {
   shop: string;
-  price: number;
+  price: number; // Shelf price of one pack
   currency: string;
+  packSize?: number; // e.g. 500 for a 500g bag
+  packUnit?: QuantityUnit;
+  unitPrice?: number; // Shelf price normalised to one unitPriceBasis
+  unitPriceBasis?: UnitPriceBasis;
 }
 
 export interface ShoppingItem {
@@ -10,13 +18,24 @@ export interface ShoppingItem {
   originalName: string;
   name: string;
   emoji: string;
+  category?: GroceryCategory;
+  quantity?: number; // How many units to buy, defaults to 1
+  unit?: QuantityUnit; // Defaults to 'each'
   status: 'pending' | 'correcting' | 'vague' | 'searching' | 'ready' | 'error';
   options?: string[];
   example?: string;
+  dietaryConflicts?: DietaryConflict[]; // Parts of the dietary profile this item may break
+  alternatives?: string[]; // Cheaper variants (own-brand, value range) to suggest when over budget
   topOptions?: PriceOption[];
   cheapestShop?: string;
   price?: number;
   currency?: string;
+  packSize?: number;
+  packUnit?: QuantityUnit;
+  unitPrice?: number;
+  unitPriceBasis?: UnitPriceBasis;
+  pricedAt?: number; // When topOptions were fetched, which may predate a cache hit
+  pricedLocation?: LocationState; // Where they were fetched for; far from here means re-price
   error?: string;
   isSelected?: boolean;
 }
@@ -49,20 +68,123 @@ export interface SummaryData {
   }>;
 }
 
+export interface RankedShop {
+  shopName: string;
+  branchName: string;
+  distance: string;
+  numericDistance: number; // In the user's distance unit; Infinity when the branch couldn't be located
+  coords?: LocationState;
+  placeId?: string;
+  totalPrice: number;
+  weight: number;
+  itemsAtBest: number;
+  isClosest: boolean;
+  isCheapest: boolean;
+  isWithinPreference: boolean;
+  // price is the shelf price of one pack; lineTotal is what the requested quantity costs.
+  receipt: Array<{ itemName: string, shopName?: string, price: number, quantity: number, unit: QuantityUnit, lineTotal: number, unitPrice?: number, unitPriceBasis?: UnitPriceBasis, isCheapestHere: boolean }>;
+  // Prices here are line totals for the requested quantity.
+  savingsDiff: Array<{ itemName: string, quantity: number, cheapestPrice: number, cheapestShop: string, cheapestUnitPrice?: number, unitPriceBasis?: UnitPriceBasis, bestShopPrice: number, difference: number }>;
+  potentialSavings: number;
+  // Only set on split-trip strategies, which buy from several stores.
+  stops?: TripStop[]; // In driving order
+  travelCost?: number;
+  routeDistance?: number; // Round trip through every stop, when all of them could be located
+  loyaltySavings?: number; // Already taken off totalPrice
+}
+
+export interface TripStop {
+  shopName: string;
+  branchName: string;
+  distance: string;
+  numericDistance: number;
+  coords?: LocationState;
+  placeId?: string;
+  itemCount: number;
+  subtotal: number;
+}
+
 export interface LocationState {
   lat: number;
   lng: number;
   address?: string;
 }
 
+export interface SavedLocation {
+  id: string;
+  name: string; // e.g. "Home", "Work"
+  query: string; // What was typed, kept so it can be shown and re-geocoded
+  coords: LocationState;
+}
+
+export interface ShoppingList {
+  id: string;
+  name: string;
+  items: ShoppingItem[];
+  createdAt: number;
+  isArchived?: boolean;
+  defaultLocationId?: string; // Saved location to switch to when opening the list, e.g. the holiday let
+  cachedRankedShops: RankedShop[] | null;
+  lastCalculationFingerprint: string;
+  activeTrip?: InStoreTrip; // Set while shopping, so check-offs survive a reload
+}
+
+export type TripLineStatus = 'checked' | 'missing';
+
+export interface InStoreTrip {
+  strategy: RankedShop;
+  startedAt: number;
+  lineStatus: Record<number, TripLineStatus>; // Keyed by index into strategy.receipt
+}
+
 export type Theme = 'light' | 'dark';
 export type UnitSystem = 'metric' | 'imperial';
+export type SplitTripCostMode = 'per-stop' | 'per-distance';
+export type PriceProviderId = 'gemini' | 'fixture';
+export type SortMode = 'category' | 'price' | 'shop' | 'added';
+export type Allergen = 'gluten' | 'dairy' | 'eggs' | 'peanuts' | 'nuts' | 'soy' | 'fish' | 'shellfish' | 'sesame';
+export type DietaryConflict = Allergen | 'vegetarian' | 'vegan' | 'halal' | 'kosher';
+
+export interface DietaryProfile {
+  allergens: Allergen[];
+  diet: 'none' | 'vegetarian' | 'vegan';
+  religious: 'none' | 'halal' | 'kosher';
+  preferOrganic: boolean;
+}
+
+export interface StorePreferences {
+  excluded: string[]; // Shops never to price or suggest
+  favourites: string[];
+  favouriteBonus: number; // Percent a favourite may cost over the cheapest and still rank first
+  loyaltyDiscounts: Record<string, number>; // Percent off at the till, by shop name
+}
+
+// Calls per day for each class of API call, as set by the user to match their tier.
+export interface ApiUsageLimits {
+  search: number;
+  maps: number;
+  plain: number;
+}
 
 export interface AppSettings {
   theme: Theme;
-  currency: string;
+  priceProvider: PriceProviderId;
+  currency: string; // ISO 4217 code, e.g. 'GBP'
+  exchangeRates: Record<string, number>; // Value of one unit of each currency in EUR
   distanceUnit: UnitSystem;
   maxDistance: number; // New: preference in distance units
-  locationString?: string;
-  manualLocation?: LocationState;
+  splitTripCostMode: SplitTripCostMode;
+  splitTripCostPerStop: number; // Currency per extra store visited
+  splitTripCostPerDistance: number; // Currency per km/mi driven to an extra store
+  priceCacheTtlHours: number;
+  searchBatchSize: number; // Items priced per search call, 1 to search one at a time
+  budget: number; // Per trip in the chosen currency, 0 when budget mode is off
+  sortMode: SortMode;
+  dietaryProfile: DietaryProfile;
+  storePreferences: StorePreferences;
+  categoryOrders: Record<string, GroceryCategory[]>; // Aisle order per shop name, default layout otherwise
+  categoryLayoutShop?: string; // Whose aisle order the list view follows
+  savedLocations: SavedLocation[];
+  activeLocationId: string; // A saved location's id, or 'gps' for the device's position
+  usageLimits: ApiUsageLimits;
 }